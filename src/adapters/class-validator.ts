@@ -0,0 +1,70 @@
+/**
+ * HTTP Response Kit - class-validator Adapter
+ * @module adapters/class-validator
+ *
+ * Importable from `http-response-kit/class-validator`. class-validator is not
+ * a dependency: the adapter only relies on the shape of its `ValidationError`.
+ */
+
+import type { HttpError } from '../errors/HttpError';
+import { ValidationErrorBuilder } from '../errors/ValidationErrorBuilder';
+import type { ValidationAdapterOptions } from '../errors/ValidationErrorBuilder';
+
+/**
+ * Minimal shape of a class-validator `ValidationError`
+ */
+export interface ClassValidatorErrorLike {
+    property: string;
+    constraints?: Record<string, string>;
+    children?: ReadonlyArray<ClassValidatorErrorLike>;
+}
+
+/**
+ * Check if a value is a class-validator `ValidationError[]`
+ */
+export function isClassValidatorErrors(errors: unknown): errors is ClassValidatorErrorLike[] {
+    return (
+        Array.isArray(errors) &&
+        errors.length > 0 &&
+        errors.every((error) => typeof error === 'object' && error !== null && typeof error.property === 'string')
+    );
+}
+
+/**
+ * Walk nested errors, adding one field error per failed constraint
+ */
+function collect(
+    builder: ValidationErrorBuilder,
+    errors: ReadonlyArray<ClassValidatorErrorLike>,
+    parentPath: ReadonlyArray<string | number>
+): void {
+    for (const { property, constraints = {}, children = [] } of errors) {
+        // Array items are reported with their index as property name
+        const path = [...parentPath, /^\d+$/.test(property) ? Number(property) : property];
+
+        for (const [constraint, message] of Object.entries(constraints)) {
+            builder.add(path, constraint, message);
+        }
+
+        collect(builder, children, path);
+    }
+}
+
+/**
+ * Convert a class-validator `ValidationError[]` to a 400/422 HttpError with one
+ * field error per failed constraint, flattening nested children into paths.
+ *
+ * @example
+ * ```ts
+ * const errors = await validate(plainToInstance(CreateUserDto, req.body));
+ * if (errors.length > 0) throw fromClassValidatorErrors(errors);
+ * ```
+ */
+export function fromClassValidatorErrors(
+    errors: ReadonlyArray<ClassValidatorErrorLike>,
+    options: ValidationAdapterOptions = {}
+): HttpError {
+    const builder = new ValidationErrorBuilder();
+    collect(builder, errors, []);
+    return builder.toHttpError(options.code, options.message, options.metadata);
+}
@@ -0,0 +1,63 @@
+/**
+ * HTTP Response Kit - Joi Adapter
+ * @module adapters/joi
+ *
+ * Importable from `http-response-kit/joi`. Joi is not a dependency:
+ * the adapter only relies on the shape of Joi's `ValidationError`.
+ */
+
+import type { HttpError } from '../errors/HttpError';
+import { ValidationErrorBuilder } from '../errors/ValidationErrorBuilder';
+import type { ValidationAdapterOptions } from '../errors/ValidationErrorBuilder';
+
+/**
+ * Minimal shape of a Joi validation error item
+ */
+export interface JoiErrorItemLike {
+    message: string;
+    path: ReadonlyArray<string | number>;
+    type: string;
+    context?: Record<string, unknown>;
+}
+
+/**
+ * Minimal shape of a Joi `ValidationError`
+ */
+export interface JoiValidationErrorLike {
+    isJoi: true;
+    details: ReadonlyArray<JoiErrorItemLike>;
+}
+
+/**
+ * Check if an error is a Joi `ValidationError`
+ */
+export function isJoiValidationError(error: unknown): error is JoiValidationErrorLike {
+    return (
+        typeof error === 'object' &&
+        error !== null &&
+        (error as JoiValidationErrorLike).isJoi === true &&
+        Array.isArray((error as JoiValidationErrorLike).details)
+    );
+}
+
+/**
+ * Convert a Joi `ValidationError` to a 400/422 HttpError with one field error per item.
+ * The Joi error type (e.g. `string.min`) becomes the field code; the context
+ * (e.g. `limit`) becomes `params`, without `label`, `key` and the rejected `value`.
+ *
+ * @example
+ * ```ts
+ * const { error } = userSchema.validate(req.body, { abortEarly: false });
+ * if (error) throw fromJoiError(error);
+ * ```
+ */
+export function fromJoiError(error: JoiValidationErrorLike, options: ValidationAdapterOptions = {}): HttpError {
+    const builder = new ValidationErrorBuilder();
+
+    for (const { message, path, type, context = {} } of error.details) {
+        const { label, key, value, ...params } = context;
+        builder.add(path, type, message, params);
+    }
+
+    return builder.toHttpError(options.code, options.message, options.metadata);
+}
@@ -0,0 +1,63 @@
+/**
+ * HTTP Response Kit - Zod Adapter
+ * @module adapters/zod
+ *
+ * Importable from `http-response-kit/zod`. Zod is not a dependency:
+ * the adapter only relies on the shape of `ZodError`.
+ */
+
+import type { HttpError } from '../errors/HttpError';
+import { ValidationErrorBuilder } from '../errors/ValidationErrorBuilder';
+import type { ValidationAdapterOptions } from '../errors/ValidationErrorBuilder';
+
+/**
+ * Minimal shape of a Zod issue
+ */
+export interface ZodIssueLike {
+    path: ReadonlyArray<PropertyKey>;
+    code: string;
+    message: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Minimal shape of a `ZodError`
+ */
+export interface ZodErrorLike {
+    name: string;
+    issues: ReadonlyArray<ZodIssueLike>;
+}
+
+/**
+ * Check if an error is a `ZodError`
+ */
+export function isZodError(error: unknown): error is ZodErrorLike {
+    return (
+        typeof error === 'object' &&
+        error !== null &&
+        (error as ZodErrorLike).name === 'ZodError' &&
+        Array.isArray((error as ZodErrorLike).issues)
+    );
+}
+
+/**
+ * Convert a `ZodError` to a 400/422 HttpError with one field error per issue.
+ * The issue code becomes the field code; remaining issue properties
+ * (e.g. `minimum`, `expected`) become `params`.
+ *
+ * @example
+ * ```ts
+ * const result = UserSchema.safeParse(req.body);
+ * if (!result.success) throw fromZodError(result.error);
+ * ```
+ */
+export function fromZodError(error: ZodErrorLike, options: ValidationAdapterOptions = {}): HttpError {
+    const builder = new ValidationErrorBuilder();
+
+    for (const { path, code, message, ...params } of error.issues) {
+        const segments = path.map((segment) => (typeof segment === 'symbol' ? String(segment) : segment));
+        builder.add(segments, code, message, params);
+    }
+
+    return builder.toHttpError(options.code, options.message, options.metadata);
+}
@@ -0,0 +1,285 @@
+/**
+ * HTTP Response Kit - Fetch Client
+ * @module client
+ *
+ * Importable from `http-response-kit/client`. A small wrapper around the
+ * global `fetch` that unwraps `SuccessResponse` envelopes and throws the
+ * `HttpError` rebuilt from error responses, so client and server share types.
+ */
+
+import type { PaginationMeta, CursorPaginationMeta } from '../types';
+import { ContentType } from '../constants/content-types';
+import { parseRetryAfter } from '../responses/response-headers';
+import { defaultResponseKit } from '../kit';
+import type { ResponseKit } from '../kit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Retry policy for transient failures
+ */
+export interface RetryOptions {
+    /** Maximum number of retries (default: 2) */
+    retries?: number;
+    /** Status codes worth retrying (default: [429, 502, 503, 504]) */
+    statusCodes?: number[];
+    /** Methods that may be retried (default: GET, HEAD, OPTIONS, PUT, DELETE) */
+    methods?: string[];
+    /** Base delay in milliseconds for exponential backoff without a `Retry-After` hint (default: 500) */
+    baseDelay?: number;
+    /** Longest delay in milliseconds the client waits; longer hints give up instead (default: 30000) */
+    maxDelay?: number;
+}
+
+/**
+ * Options for `createHttpClient()`
+ */
+export interface HttpClientOptions {
+    /** Base URL prepended to relative request paths */
+    baseUrl?: string;
+    /** Headers sent with every request */
+    headers?: Record<string, string>;
+    /** Retry policy (`false` to disable) */
+    retry?: RetryOptions | false;
+    /** `fetch` implementation (default: global `fetch`) */
+    fetch?: typeof fetch;
+    /** Kit whose `HttpError` class is thrown (default: global configuration) */
+    kit?: ResponseKit;
+}
+
+/**
+ * Options for a single request
+ */
+export interface HttpRequestOptions {
+    /** HTTP method (default: 'GET') */
+    method?: string;
+    /** Additional request headers */
+    headers?: Record<string, string>;
+    /** Query string parameters (`undefined` values are skipped) */
+    query?: Record<string, string | number | boolean | undefined>;
+    /** Request body; anything but a string is sent as JSON */
+    body?: unknown;
+    /** Abort signal (also cancels pending retries) */
+    signal?: AbortSignal;
+    /** Retry policy override for this request */
+    retry?: RetryOptions | false;
+}
+
+/**
+ * Page of a paginated response (`M` is `CursorPaginationMeta` for cursor pagination)
+ */
+export interface Page<T, M extends PaginationMeta | CursorPaginationMeta = PaginationMeta> {
+    /** Items of the current page */
+    data: T[];
+    /** Pagination details from `metadata.pagination` */
+    pagination: M;
+}
+
+/**
+ * Client returned by `createHttpClient()`
+ */
+export interface HttpClient {
+    /** Send a request and return the unwrapped `data` */
+    request<T = unknown>(path: string, options?: HttpRequestOptions): Promise<T>;
+    /** GET request */
+    get<T = unknown>(path: string, options?: Omit<HttpRequestOptions, 'method' | 'body'>): Promise<T>;
+    /** POST request */
+    post<T = unknown>(path: string, body?: unknown, options?: Omit<HttpRequestOptions, 'method' | 'body'>): Promise<T>;
+    /** PUT request */
+    put<T = unknown>(path: string, body?: unknown, options?: Omit<HttpRequestOptions, 'method' | 'body'>): Promise<T>;
+    /** PATCH request */
+    patch<T = unknown>(path: string, body?: unknown, options?: Omit<HttpRequestOptions, 'method' | 'body'>): Promise<T>;
+    /** DELETE request */
+    delete<T = unknown>(path: string, options?: Omit<HttpRequestOptions, 'method' | 'body'>): Promise<T>;
+    /** GET a paginated response (`HttpResponse.paginated()`) as a typed page */
+    getPage<T = unknown, M extends PaginationMeta | CursorPaginationMeta = PaginationMeta>(
+        path: string,
+        options?: Omit<HttpRequestOptions, 'method' | 'body'>
+    ): Promise<Page<T, M>>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const DEFAULT_RETRY_STATUS_CODES = [429, 502, 503, 504];
+const DEFAULT_RETRY_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Check for a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a response body as JSON, keeping non-JSON text as is
+ */
+function parseBody(text: string): unknown {
+    if (!text) {
+        return undefined;
+    }
+
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Build the request URL from the base URL, path and query parameters
+ */
+function buildUrl(baseUrl: string | undefined, path: string, query?: HttpRequestOptions['query']): string {
+    const url = baseUrl && !/^[a-z][a-z\d+.-]*:/i.test(path)
+        ? `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`
+        : path;
+
+    const params = Object.entries(query ?? {})
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+
+    return params.length > 0 ? `${url}${url.includes('?') ? '&' : '?'}${params.join('&')}` : url;
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Create a fetch-based client for APIs built with this library.
+ *
+ * Success envelopes are unwrapped to their `data`; non-2xx responses throw the
+ * `HttpError` rebuilt with `HttpError.fromResponse()`. Requests failing with
+ * 429/502/503/504 are retried, waiting for `Retry-After` (header or
+ * `retry_after`) or an exponential backoff.
+ *
+ * @example
+ * ```ts
+ * const api = createHttpClient({ baseUrl: 'https://api.example.com', headers: { Authorization: `Bearer ${token}` } });
+ *
+ * const user = await api.get<User>('/users/42');
+ * const { data, pagination } = await api.getPage<User>('/users', { query: { page: 2 } });
+ *
+ * try {
+ *   await api.post('/users', { email });
+ * } catch (error) {
+ *   if (HttpError.isHttpError(error) && error.code === 409) { ... }
+ * }
+ * ```
+ */
+export function createHttpClient(options: HttpClientOptions = {}): HttpClient {
+    const { baseUrl, headers: defaultHeaders, kit = defaultResponseKit } = options;
+
+    const send = async (path: string, requestOptions: HttpRequestOptions = {}): Promise<unknown> => {
+        const { method = 'GET', headers, query, body, signal } = requestOptions;
+        const retry = requestOptions.retry ?? options.retry ?? {};
+        const {
+            retries = 2,
+            statusCodes = DEFAULT_RETRY_STATUS_CODES,
+            methods = DEFAULT_RETRY_METHODS,
+            baseDelay = 500,
+            maxDelay = 30_000,
+        } = retry || {};
+
+        const fetchImpl = options.fetch ?? fetch;
+        const isJsonBody = body !== undefined && typeof body !== 'string';
+        const init = {
+            method: method.toUpperCase(),
+            headers: {
+                Accept: `${ContentType.JSON}, ${ContentType.PROBLEM_JSON}`,
+                ...(isJsonBody ? { 'Content-Type': ContentType.JSON } : undefined),
+                ...defaultHeaders,
+                ...headers,
+            },
+            body: isJsonBody ? JSON.stringify(body) : (body as string | undefined),
+            signal,
+        };
+        const url = buildUrl(baseUrl, path, query);
+
+        for (let attempt = 0; ; attempt++) {
+            const response = await fetchImpl(url, init);
+            const text = await response.text();
+            const parsed = parseBody(text);
+
+            if (response.ok) {
+                return isRecord(parsed) && parsed.success === true ? parsed : { success: true, data: parsed };
+            }
+
+            const error = await kit.HttpError.fromResponse({
+                status: response.status,
+                headers: response.headers,
+                text: async () => text,
+            });
+
+            const hint = parseRetryAfter(response.headers.get('Retry-After'))
+                ?? (isRecord(parsed) && typeof parsed.retry_after === 'number' ? parsed.retry_after : undefined);
+            const delay = hint !== undefined ? hint * 1000 : baseDelay * 2 ** attempt;
+
+            const canRetry = retry !== false &&
+                attempt < retries &&
+                statusCodes.includes(response.status) &&
+                methods.includes(init.method) &&
+                delay <= maxDelay;
+
+            if (!canRetry) {
+                throw error;
+            }
+
+            await sleep(delay, signal);
+        }
+    };
+
+    const request = async <T>(path: string, requestOptions?: HttpRequestOptions): Promise<T> =>
+        (await send(path, requestOptions) as { data?: T }).data as T;
+
+    return {
+        request,
+        get: (path, requestOptions) => request(path, { ...requestOptions, method: 'GET' }),
+        post: (path, body, requestOptions) => request(path, { ...requestOptions, method: 'POST', body }),
+        put: (path, body, requestOptions) => request(path, { ...requestOptions, method: 'PUT', body }),
+        patch: (path, body, requestOptions) => request(path, { ...requestOptions, method: 'PATCH', body }),
+        delete: (path, requestOptions) => request(path, { ...requestOptions, method: 'DELETE' }),
+        getPage: async <T, M extends PaginationMeta | CursorPaginationMeta>(
+            path: string,
+            requestOptions?: Omit<HttpRequestOptions, 'method' | 'body'>
+        ) => {
+            const envelope = await send(path, { ...requestOptions, method: 'GET' }) as {
+                data?: T[];
+                metadata?: { pagination?: M };
+            };
+
+            const pagination = envelope.metadata?.pagination;
+            if (!pagination || !Array.isArray(envelope.data)) {
+                throw new TypeError(`Response from ${path} is not a paginated response`);
+            }
+
+            return { data: envelope.data, pagination };
+        },
+    };
+}
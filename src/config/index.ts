@@ -3,7 +3,7 @@
  * @module config
  */
 
-import type { LibraryConfig } from '../types';
+import type { LibraryConfig, RequestContextConfig, ErrorMaskingConfig, RedactionConfig, StackTraceConfig, I18nConfig } from '../types';
 
 /**
  * Default library configuration
@@ -13,18 +13,160 @@ const defaultConfig: LibraryConfig = {
     includeTimestamp: true,
     customMessages: {},
     responseTransformer: undefined,
+    problemTypeBaseUri: undefined,
+    requestContext: {},
+    errorMasking: {},
+    redaction: {},
+    maxCauseDepth: undefined,
+    stackTrace: {},
+    i18n: {},
 };
 
 /**
- * Current library configuration (mutable)
+ * Holds one library configuration.
+ * The module-level functions below operate on the default store; each
+ * `createResponseKit()` instance owns a separate one.
  */
-let currentConfig: LibraryConfig = { ...defaultConfig };
+export class ConfigStore {
+    private readonly initialConfig: LibraryConfig;
+
+    private currentConfig: LibraryConfig;
+
+    constructor(config: Partial<LibraryConfig> = {}) {
+        this.initialConfig = {
+            ...defaultConfig,
+            ...config,
+            customMessages: { ...config.customMessages },
+        };
+        this.currentConfig = { ...this.initialConfig, customMessages: { ...this.initialConfig.customMessages } };
+    }
+
+    /**
+     * Merge a partial configuration into the current settings
+     */
+    configure(config: Partial<LibraryConfig>): void {
+        this.currentConfig = {
+            ...this.currentConfig,
+            ...config,
+            customMessages: { ...this.currentConfig.customMessages, ...config.customMessages },
+        };
+    }
+
+    /**
+     * Get a snapshot of the current configuration
+     */
+    get(): Readonly<LibraryConfig> {
+        return { ...this.currentConfig };
+    }
+
+    /**
+     * Reset configuration to the settings the store was created with
+     */
+    reset(): void {
+        this.currentConfig = { ...this.initialConfig, customMessages: { ...this.initialConfig.customMessages } };
+    }
+
+    /**
+     * Check if running in development mode
+     */
+    isDevelopment(): boolean {
+        return this.currentConfig.isDevelopment ?? process.env.NODE_ENV === 'development';
+    }
+
+    /**
+     * Check if timestamps should be included
+     */
+    shouldIncludeTimestamp(): boolean {
+        return this.currentConfig.includeTimestamp ?? true;
+    }
+
+    /**
+     * Get custom message for a status code (if defined)
+     */
+    getCustomMessage(code: number): string | undefined {
+        return this.currentConfig.customMessages?.[code];
+    }
+
+    /**
+     * Get the response transformer (if defined)
+     */
+    getResponseTransformer(): LibraryConfig['responseTransformer'] {
+        return this.currentConfig.responseTransformer;
+    }
+
+    /**
+     * Get the base URI for Problem Details `type` members (if defined)
+     */
+    getProblemTypeBaseUri(): string | undefined {
+        return this.currentConfig.problemTypeBaseUri;
+    }
+
+    /**
+     * Get the request context merge settings (`undefined` when disabled)
+     */
+    getRequestContextConfig(): RequestContextConfig | undefined {
+        const { requestContext } = this.currentConfig;
+        return requestContext === false ? undefined : requestContext ?? {};
+    }
+
+    /**
+     * Get the error masking policy if it currently applies (`undefined` otherwise)
+     */
+    getActiveErrorMasking(): ErrorMaskingConfig | undefined {
+        const masking = this.currentConfig.errorMasking ?? {};
+        const mode = masking.mode ?? 'production';
+
+        if (mode === 'never') {
+            return undefined;
+        }
+
+        if (mode === 'production' && (process.env.NODE_ENV !== 'production' || this.isDevelopment())) {
+            return undefined;
+        }
+
+        return masking;
+    }
+
+    /**
+     * Get the redaction settings (`undefined` when disabled)
+     */
+    getRedaction(): RedactionConfig | undefined {
+        const { redaction } = this.currentConfig;
+        return redaction === false ? undefined : redaction ?? {};
+    }
+
+    /**
+     * Get the maximum depth of serialized cause chains (if defined)
+     */
+    getMaxCauseDepth(): number | undefined {
+        return this.currentConfig.maxCauseDepth;
+    }
+
+    /**
+     * Get the stack trace output settings
+     */
+    getStackTraceConfig(): StackTraceConfig {
+        return this.currentConfig.stackTrace ?? {};
+    }
+
+    /**
+     * Get the localization settings
+     */
+    getI18nConfig(): I18nConfig {
+        return this.currentConfig.i18n ?? {};
+    }
+}
+
+/**
+ * Default (process-wide) configuration store
+ */
+export const defaultConfigStore = new ConfigStore();
 
 /**
  * Configure the library globally
- * 
+ *
  * @param config - Partial configuration to merge with current settings
- * 
+ *
  * @example
  * ```ts
  * configure({
@@ -38,51 +180,54 @@ let currentConfig: LibraryConfig = { ...defaultConfig };
  * ```
  */
 export function configure(config: Partial<LibraryConfig>): void {
-    currentConfig = {
-        ...currentConfig,
-        ...config,
-        customMessages: { ...currentConfig.customMessages, ...config.customMessages },
-    };
+    defaultConfigStore.configure(config);
 }
 
 /**
  * Get the current library configuration
  */
 export function getConfig(): Readonly<LibraryConfig> {
-    return { ...currentConfig };
+    return defaultConfigStore.get();
 }
 
 /**
  * Reset configuration to defaults
  */
 export function resetConfig(): void {
-    currentConfig = { ...defaultConfig, customMessages: {} };
+    defaultConfigStore.reset();
 }
 
 /**
  * Check if running in development mode
  */
 export function isDevelopment(): boolean {
-    return currentConfig.isDevelopment ?? process.env.NODE_ENV === 'development';
+    return defaultConfigStore.isDevelopment();
 }
 
 /**
  * Check if timestamps should be included
  */
 export function shouldIncludeTimestamp(): boolean {
-    return currentConfig.includeTimestamp ?? true;
+    return defaultConfigStore.shouldIncludeTimestamp();
 }
 
 /**
  * Get custom message for a status code (if defined)
  */
 export function getCustomMessage(code: number): string | undefined {
-    return currentConfig.customMessages?.[code];
+    return defaultConfigStore.getCustomMessage(code);
 }
 
 /**
  * Get the response transformer (if defined)
  */
 export function getResponseTransformer(): LibraryConfig['responseTransformer'] {
-    return currentConfig.responseTransformer;
+    return defaultConfigStore.getResponseTransformer();
+}
+
+/**
+ * Get the base URI for Problem Details `type` members (if defined)
+ */
+export function getProblemTypeBaseUri(): string | undefined {
+    return defaultConfigStore.getProblemTypeBaseUri();
 }
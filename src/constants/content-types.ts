@@ -0,0 +1,12 @@
+/**
+ * HTTP Response Kit - Content Types
+ * @module constants/content-types
+ */
+
+/**
+ * Media types used when serializing responses
+ */
+export enum ContentType {
+    JSON = 'application/json',
+    PROBLEM_JSON = 'application/problem+json',
+}
@@ -5,6 +5,7 @@
 
 import type { HttpErrorInfo } from '../types';
 import { HttpClientErrorCode, HttpServerErrorCode } from './status-codes';
+import { getRegisteredErrorDefinition, getRegisteredErrorCodes } from '../registry';
 
 /**
  * Complete definitions for all HTTP error types (4xx and 5xx)
@@ -313,6 +314,7 @@ Object.freeze(HttpErrorDefinitions);
 
 /**
  * Get error definition by status code
+ * (registered definitions take precedence over the built-in ones)
  */
 export function getErrorDefinition(code: number): HttpErrorInfo {
     if (code < 400 || code > 599) {
@@ -321,8 +323,10 @@ export function getErrorDefinition(code: number): HttpErrorInfo {
         );
     }
 
+    const registered = getRegisteredErrorDefinition(code);
+
     if (HttpErrorDefinitions[code]) {
-        return HttpErrorDefinitions[code];
+        return registered ? { ...HttpErrorDefinitions[code], ...registered, code } : HttpErrorDefinitions[code];
     }
 
     // Preserve the original code but provide a generic fallback definition
@@ -334,5 +338,14 @@ export function getErrorDefinition(code: number): HttpErrorInfo {
         details: isClientError
             ? 'An unknown client error occurred.'
             : 'An unknown server error occurred.',
+        ...registered,
     };
 }
+
+/**
+ * List the definitions of all known error codes (built-in and registered), sorted by code
+ */
+export function listErrorDefinitions(): HttpErrorInfo[] {
+    const codes = new Set([...Object.keys(HttpErrorDefinitions).map(Number), ...getRegisteredErrorCodes()]);
+    return [...codes].sort((a, b) => a - b).map(getErrorDefinition);
+}
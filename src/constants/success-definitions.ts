@@ -5,6 +5,7 @@
 
 import type { HttpSuccessInfo } from '../types';
 import { HttpSuccessCode, HttpRedirectCode, HttpInfoCode } from './status-codes';
+import { getRegisteredSuccessDefinition } from '../registry';
 
 /**
  * Complete definitions for HTTP 2xx Success codes
@@ -139,20 +140,23 @@ Object.freeze(HttpInfoDefinitions);
 
 /**
  * Get success definition by status code
+ * (registered definitions take precedence over the built-in ones)
  */
 export function getSuccessDefinition(code: number): HttpSuccessInfo {
     const definedInfo =
         HttpSuccessDefinitions[code] ||
         HttpRedirectDefinitions[code] ||
         HttpInfoDefinitions[code];
+    const registered = getRegisteredSuccessDefinition(code);
 
     if (definedInfo) {
-        return definedInfo;
+        return registered ? { ...definedInfo, ...registered, code } : definedInfo;
     }
 
     // Preserve the original code but provide a generic fallback definition
     return {
         code: code,
         description: 'The request was processed with a non-standard status code.',
+        ...registered,
     };
 }
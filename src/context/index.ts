@@ -0,0 +1,180 @@
+/**
+ * HTTP Response Kit - Request Context
+ * @module context
+ *
+ * Importable from `http-response-kit/context`. Stores the request context in
+ * an `AsyncLocalStorage` so `HttpResponse.success()`/`error()` can include the
+ * request id, trace id and instance without passing them at every call site.
+ * Importing this module registers the storage with the formatters.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import type { RequestContext } from '../types';
+import { setRequestContextResolver } from './resolver';
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Request context storage
+ */
+const storage = new AsyncLocalStorage<RequestContext>();
+
+setRequestContextResolver(() => storage.getStore());
+
+/**
+ * Run a function with the given request context.
+ * Everything called from `fn`, synchronously or asynchronously, sees the context.
+ *
+ * @example
+ * ```ts
+ * // Fastify
+ * app.addHook('onRequest', (request, reply, done) => {
+ *   runWithRequestContext(extractRequestContext(request.headers, request.url), done);
+ * });
+ *
+ * // Hono
+ * app.use((c, next) => runWithRequestContext(
+ *   extractRequestContext(c.req.raw.headers, new URL(c.req.url).pathname),
+ *   next
+ * ));
+ * ```
+ */
+export function runWithRequestContext<R>(context: RequestContext, fn: () => R): R {
+    return storage.run({ ...context }, fn);
+}
+
+/**
+ * Get the active request context (if any)
+ */
+export function getRequestContext(): Readonly<RequestContext> | undefined {
+    return storage.getStore();
+}
+
+/**
+ * Add values to the active request context (e.g. a user id once authenticated).
+ * Has no effect outside `runWithRequestContext()`.
+ */
+export function updateRequestContext(values: Partial<RequestContext>): void {
+    const context = storage.getStore();
+    if (context) {
+        Object.assign(context, values);
+    }
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Request headers as a plain object or a fetch `Headers` instance
+ */
+export type RequestHeadersLike =
+    | Record<string, string | string[] | undefined>
+    | { get(name: string): string | null };
+
+/**
+ * Options for extracting the request context from headers
+ */
+export interface RequestContextOptions {
+    /** Header carrying the request id (default: 'x-request-id') */
+    requestIdHeader?: string;
+    /** Generate a request id when the header is missing (default: `crypto.randomUUID`, `false` to disable) */
+    generateRequestId?: (() => string) | false;
+}
+
+/**
+ * Read a header value from either header representation
+ */
+function readHeader(headers: RequestHeadersLike, name: string): string | undefined {
+    if (typeof headers.get === 'function') {
+        return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+    }
+
+    const value = (headers as Record<string, string | string[] | undefined>)[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Build a request context from request headers.
+ * The request id comes from `X-Request-Id` (or a generated UUID); the trace id
+ * from a W3C `traceparent` header; the locale from `Accept-Language`.
+ *
+ * @param headers - Request headers
+ * @param instance - Request path, used as `instance` for errors
+ * @param options - Extraction options
+ */
+export function extractRequestContext(
+    headers: RequestHeadersLike,
+    instance?: string,
+    options: RequestContextOptions = {}
+): RequestContext {
+    const { requestIdHeader = 'x-request-id', generateRequestId = randomUUID } = options;
+    const context: RequestContext = {};
+
+    const requestId = readHeader(headers, requestIdHeader) || (generateRequestId ? generateRequestId() : undefined);
+    if (requestId) {
+        context.requestId = requestId;
+    }
+
+    // traceparent: version-traceid-parentid-flags
+    const traceId = readHeader(headers, 'traceparent')?.split('-')[1];
+    if (traceId) {
+        context.traceId = traceId;
+    }
+
+    if (instance) {
+        context.instance = instance;
+    }
+
+    // Accept-Language: negotiated against the locale bundles when formatting errors
+    const locale = readHeader(headers, 'accept-language');
+    if (locale) {
+        context.locale = locale;
+    }
+
+    return context;
+}
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Options for the request context middleware
+ */
+export interface RequestContextMiddlewareOptions extends RequestContextOptions {
+    /** Echo the request id in this response header (default: 'X-Request-Id', `false` to disable) */
+    responseHeader?: string | false;
+}
+
+/**
+ * Create an Express/Connect middleware that runs the rest of the request
+ * inside a request context extracted from its headers.
+ *
+ * @example
+ * ```ts
+ * app.use(requestContextMiddleware());
+ * // every HttpResponse.success()/error() now includes request_id and trace_id
+ * ```
+ */
+export function requestContextMiddleware(options: RequestContextMiddlewareOptions = {}) {
+    const { responseHeader = 'X-Request-Id', ...extractOptions } = options;
+
+    return (
+        req: { headers: RequestHeadersLike; url: string; originalUrl?: string },
+        res: { setHeader(name: string, value: string): unknown },
+        next: (error?: unknown) => void
+    ): void => {
+        const path = (req.originalUrl ?? req.url).split('?')[0];
+        const context = extractRequestContext(req.headers, path, extractOptions);
+
+        if (responseHeader && context.requestId) {
+            res.setHeader(responseHeader, context.requestId);
+        }
+
+        runWithRequestContext(context, () => next());
+    };
+}
@@ -0,0 +1,51 @@
+/**
+ * HTTP Response Kit - Request Context Resolver
+ * @module context/resolver
+ *
+ * Runtime-agnostic bridge between the formatters and the request context
+ * storage registered by `http-response-kit/context`.
+ */
+
+import type { RequestContext, RequestContextConfig } from '../types';
+
+/**
+ * Default mapping of context keys to response fields
+ */
+const DEFAULT_CONTEXT_FIELDS: Record<string, string> = {
+    requestId: 'request_id',
+    traceId: 'trace_id',
+};
+
+/**
+ * Function returning the active request context
+ */
+let contextResolver: (() => RequestContext | undefined) | undefined;
+
+/**
+ * Register the function returning the active request context
+ */
+export function setRequestContextResolver(resolver: (() => RequestContext | undefined) | undefined): void {
+    contextResolver = resolver;
+}
+
+/**
+ * Get the active request context (if any)
+ */
+export function resolveRequestContext(): RequestContext | undefined {
+    return contextResolver?.();
+}
+
+/**
+ * Map the active request context to response fields
+ */
+export function getRequestContextFields(context: RequestContext, config: RequestContextConfig): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+
+    for (const [key, field] of Object.entries(config.fields ?? DEFAULT_CONTEXT_FIELDS)) {
+        if (context[key] !== undefined) {
+            fields[field] = context[key];
+        }
+    }
+
+    return fields;
+}
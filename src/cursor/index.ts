@@ -0,0 +1,122 @@
+/**
+ * HTTP Response Kit - Pagination Cursors
+ * @module cursor
+ *
+ * Importable from `http-response-kit/cursor`. Opaque cursors for cursor
+ * (keyset) pagination: the position is serialized as base64url JSON and
+ * optionally signed with an HMAC, so clients cannot forge or edit it.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { HttpError } from '../errors/HttpError';
+import { defaultResponseKit } from '../kit';
+import type { ResponseKit } from '../kit';
+
+/**
+ * Options for `encodeCursor()`
+ */
+export interface EncodeCursorOptions {
+    /** HMAC-SHA256 signing secret; with several secrets, the first one signs */
+    secret?: string | string[];
+}
+
+/**
+ * Options for `decodeCursor()`
+ */
+export interface DecodeCursorOptions {
+    /** Secret(s) accepted for the signature (list several to rotate secrets); required signature when set */
+    secret?: string | string[];
+    /** Query parameter name used as the field error path (default: 'cursor') */
+    field?: string;
+    /** Kit whose `HttpError` class is thrown (default: global configuration) */
+    kit?: ResponseKit;
+}
+
+/**
+ * Sign a cursor payload
+ */
+function sign(payload: string, secret: string): string {
+    return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Normalize the secret option to a list
+ */
+function toSecrets(secret: string | string[] | undefined): string[] {
+    return secret === undefined ? [] : Array.isArray(secret) ? secret : [secret];
+}
+
+/**
+ * Encode a pagination position as an opaque cursor: base64url JSON, followed
+ * by `.` and an HMAC-SHA256 signature when a secret is given.
+ *
+ * @example
+ * ```ts
+ * const last = rows[rows.length - 1];
+ * const nextCursor = encodeCursor({ createdAt: last.createdAt, id: last.id }, { secret: process.env.CURSOR_SECRET });
+ * HttpResponse.paginated(rows, { nextCursor, hasMore: rows.length === limit, limit });
+ * ```
+ */
+export function encodeCursor(value: unknown, options: EncodeCursorOptions = {}): string {
+    const json = JSON.stringify(value);
+    if (json === undefined) {
+        throw new TypeError('Cursor value must be JSON-serializable');
+    }
+
+    const payload = Buffer.from(json, 'utf8').toString('base64url');
+    const [secret] = toSecrets(options.secret);
+
+    return secret === undefined ? payload : `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Decode a cursor created by `encodeCursor()`.
+ * Malformed, unsigned (when a secret is configured) or tampered cursors throw
+ * a 400 `HttpError` with a field error for the cursor parameter.
+ *
+ * @example
+ * ```ts
+ * const after = req.query.cursor
+ *   ? decodeCursor<{ createdAt: string; id: number }>(req.query.cursor, { secret: process.env.CURSOR_SECRET })
+ *   : undefined;
+ * ```
+ */
+export function decodeCursor<T = unknown>(cursor: string, options: DecodeCursorOptions = {}): T {
+    const { field = 'cursor', kit = defaultResponseKit } = options;
+    const secrets = toSecrets(options.secret);
+
+    const invalid = (reason: string): HttpError =>
+        new kit.HttpError(400, {
+            message: 'Invalid pagination cursor',
+            errors: [{ path: field, code: 'invalid_format', message: reason }],
+            expose: true,
+        });
+
+    const [payload, signature, ...rest] = cursor.split('.');
+
+    if (!payload || rest.length > 0 || !/^[A-Za-z0-9_-]+$/.test(payload)) {
+        throw invalid('Cursor is malformed');
+    }
+
+    if (secrets.length > 0) {
+        if (!signature) {
+            throw invalid('Cursor is not signed');
+        }
+
+        const received = Buffer.from(signature);
+        const isValid = secrets.some((secret) => {
+            const expected = Buffer.from(sign(payload, secret));
+            return expected.length === received.length && timingSafeEqual(expected, received);
+        });
+
+        if (!isValid) {
+            throw invalid('Cursor signature does not match');
+        }
+    }
+
+    try {
+        return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as T;
+    } catch {
+        throw invalid('Cursor is malformed');
+    }
+}
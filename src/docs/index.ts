@@ -0,0 +1,221 @@
+/**
+ * HTTP Response Kit - Error Reference Documentation
+ * @module docs
+ *
+ * Importable from `http-response-kit/docs`. Renders the error definitions,
+ * registered status codes and configured custom messages into a static
+ * Markdown or HTML reference for developer portals. Each error has an anchor
+ * equal to its `type`, so clients can link `error.type` straight to it.
+ */
+
+import type { HttpErrorInfo } from '../types';
+import { HttpErrorDefinitions, getErrorDefinition, listErrorDefinitions } from '../constants/error-definitions';
+import { Translator } from '../i18n';
+import { defaultResponseKit } from '../kit';
+import type { ResponseKit } from '../kit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for `renderErrorReference()`
+ */
+export interface ErrorReferenceOptions {
+    /** Output format (default: 'markdown') */
+    format?: 'markdown' | 'html';
+    /** Document title (default: 'Error Reference') */
+    title?: string;
+    /** Error codes to document (default: all built-in and registered definitions) */
+    errorCodes?: number[];
+    /** Locale of the definition texts (see `configure({ i18n })`) */
+    locale?: string;
+    /** Kit whose custom messages and locale bundles are used (default: global configuration) */
+    kit?: ResponseKit;
+}
+
+/**
+ * One documented error
+ */
+interface ReferenceEntry {
+    definition: HttpErrorInfo;
+    anchor: string;
+    customMessage?: string;
+    isCustomCode: boolean;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Get the stable anchor of an error type (`not_found` → `not_found`).
+ * Characters outside `[a-z0-9_-]` are replaced with `-`.
+ *
+ * @example
+ * ```ts
+ * const link = `https://docs.example.com/errors#${getErrorAnchor(response.error.type)}`;
+ * ```
+ */
+export function getErrorAnchor(type: string): string {
+    return type.toLowerCase().replace(/[^a-z0-9_-]+/g, '-');
+}
+
+/**
+ * Escape text for HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Escape text for a Markdown table cell
+ */
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Format a Retry-After hint
+ */
+function formatRetryAfter(seconds: number): string {
+    return seconds === 1 ? '1 second' : `${seconds} seconds`;
+}
+
+// ============================================================================
+// Renderers
+// ============================================================================
+
+/**
+ * Render the entries as Markdown
+ */
+function renderMarkdown(title: string, entries: ReferenceEntry[]): string {
+    const lines = [`# ${title}`, '', '| Status | Type | Title |', '| --- | --- | --- |'];
+
+    for (const { definition, anchor } of entries) {
+        lines.push(`| ${definition.code} | [\`${definition.type}\`](#${anchor}) | ${escapeCell(definition.title)} |`);
+    }
+
+    for (const { definition, anchor, customMessage, isCustomCode } of entries) {
+        lines.push('', `## <a id="${anchor}"></a>${definition.code} ${definition.title}`, '', `Type: \`${definition.type}\``);
+
+        if (isCustomCode) {
+            lines.push('', '_Non-standard status code._');
+        }
+
+        lines.push('', definition.details);
+
+        if (customMessage !== undefined) {
+            lines.push('', `**Message:** ${customMessage}`);
+        }
+
+        if (definition.resolution) {
+            lines.push('', `**Resolution:** ${definition.resolution}`);
+        }
+
+        if (definition.retryAfter) {
+            lines.push('', `**Retry-After:** ${formatRetryAfter(definition.retryAfter)}`);
+        }
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Render the entries as an HTML fragment
+ */
+function renderHtml(title: string, entries: ReferenceEntry[]): string {
+    const lines = [
+        '<section class="error-reference">',
+        `<h1>${escapeHtml(title)}</h1>`,
+        '<table>',
+        '<thead><tr><th>Status</th><th>Type</th><th>Title</th></tr></thead>',
+        '<tbody>',
+    ];
+
+    for (const { definition, anchor } of entries) {
+        lines.push(
+            `<tr><td>${definition.code}</td><td><a href="#${escapeHtml(anchor)}"><code>${escapeHtml(definition.type)}</code></a></td>` +
+            `<td>${escapeHtml(definition.title)}</td></tr>`
+        );
+    }
+
+    lines.push('</tbody>', '</table>');
+
+    for (const { definition, anchor, customMessage, isCustomCode } of entries) {
+        lines.push(
+            `<section id="${escapeHtml(anchor)}" class="error-definition">`,
+            `<h2>${definition.code} ${escapeHtml(definition.title)}</h2>`,
+            `<p>Type: <code>${escapeHtml(definition.type)}</code></p>`
+        );
+
+        if (isCustomCode) {
+            lines.push('<p><em>Non-standard status code.</em></p>');
+        }
+
+        lines.push(`<p>${escapeHtml(definition.details)}</p>`);
+
+        if (customMessage !== undefined) {
+            lines.push(`<p><strong>Message:</strong> ${escapeHtml(customMessage)}</p>`);
+        }
+
+        if (definition.resolution) {
+            lines.push(`<p><strong>Resolution:</strong> ${escapeHtml(definition.resolution)}</p>`);
+        }
+
+        if (definition.retryAfter) {
+            lines.push(`<p><strong>Retry-After:</strong> ${formatRetryAfter(definition.retryAfter)}</p>`);
+        }
+
+        lines.push('</section>');
+    }
+
+    lines.push('</section>');
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Render a static reference of the error definitions: built-in and
+ * registered codes (sorted by code), with their details, `resolution`,
+ * `retryAfter` hint and the configured custom message. Each error's
+ * section is anchored at its `type` (see `getErrorAnchor()`).
+ *
+ * @example
+ * ```ts
+ * import { writeFileSync } from 'node:fs';
+ * import { renderErrorReference } from 'http-response-kit/docs';
+ *
+ * writeFileSync('docs/errors.md', renderErrorReference());
+ * writeFileSync('portal/errors.de.html', renderErrorReference({ format: 'html', locale: 'de', title: 'Fehlercodes' }));
+ * ```
+ */
+export function renderErrorReference(options: ErrorReferenceOptions = {}): string {
+    const { format = 'markdown', title = 'Error Reference', locale, kit = defaultResponseKit } = options;
+    const config = kit.getConfig();
+    const translator = new Translator(locale, config.i18n);
+
+    const definitions = options.errorCodes
+        ? [...new Set(options.errorCodes)].sort((a, b) => a - b).map(getErrorDefinition)
+        : listErrorDefinitions();
+
+    const entries = definitions.map((definition): ReferenceEntry => {
+        const customMessage = config.customMessages?.[definition.code];
+
+        return {
+            definition: translator.localizeDefinition(definition),
+            anchor: getErrorAnchor(definition.type),
+            customMessage: customMessage === undefined
+                ? undefined
+                : translator.lookup('customMessages', definition.code) ?? customMessage,
+            isCustomCode: HttpErrorDefinitions[definition.code] === undefined,
+        };
+    });
+
+    return format === 'html' ? renderHtml(title, entries) : renderMarkdown(title, entries);
+}
@@ -3,10 +3,40 @@
  * @module errors/HttpError
  */
 
-import type { HttpErrorOptions } from '../types';
+import type { HttpErrorOptions, ProblemDetails, ResponseHeaders, FieldError, FetchResponseLike } from '../types';
 import { HttpClientErrorCode, HttpServerErrorCode } from '../constants/status-codes';
 import { getErrorDefinition } from '../constants/error-definitions';
-import { getCustomMessage } from '../config';
+import { ConfigStore, defaultConfigStore } from '../config';
+import { redact } from '../redaction';
+import { serializeErrorCauses } from './error-causes';
+import { parseRetryAfter } from '../responses/response-headers';
+import { formatMessage, hasPlaceholders } from './message-template';
+
+/**
+ * Generate an opaque error reference id
+ */
+function generateReference(): string {
+    const webCrypto = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+    if (typeof webCrypto?.randomUUID === 'function') {
+        return webCrypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * Check for a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Resolve the class a static method was called on, falling back to
+ * `HttpError` for detached calls such as `promise.catch(HttpError.fromError)`
+ */
+function errorClassOf(self: unknown): typeof HttpError {
+    return typeof self === 'function' ? self as typeof HttpError : HttpError;
+}
 
 /**
  * Custom HTTP Error class that extends the native Error class.
@@ -54,6 +84,33 @@ export class HttpError extends Error {
     /** Retry-after time in seconds (if applicable) */
     readonly retryAfter?: number;
 
+    /** HTTP response headers (never serialized into the body) */
+    readonly headers?: ResponseHeaders;
+
+    /** Field-level validation errors */
+    readonly errors?: FieldError[];
+
+    /** Whether the message is explicitly marked as safe to expose to clients */
+    readonly expose: boolean;
+
+    /** Application-level error code (e.g. `USER_EMAIL_TAKEN`) */
+    readonly appCode?: string;
+
+    /** Documentation URL for the error */
+    readonly docsUrl?: string;
+
+    /** Raw message template the message was built from (`customMessages`, catalog entries or messages with `params`) */
+    readonly messageTemplate?: string;
+
+    /** Parameters used to fill `messageTemplate` */
+    readonly messageParams?: Record<string, unknown>;
+
+    /** Lazily generated reference id (see `reference`) */
+    private referenceId?: string;
+
+    /** Configuration store used for custom messages (overridden by `createResponseKit()`) */
+    protected static configStore: ConfigStore = defaultConfigStore;
+
     /**
      * Creates a new HttpError instance
      * 
@@ -62,10 +119,21 @@ export class HttpError extends Error {
      */
     constructor(code: HttpClientErrorCode | HttpServerErrorCode | number, options: HttpErrorOptions = {}) {
         const errorInfo = getErrorDefinition(code);
-        const customMessage = getCustomMessage(code);
-        const finalMessage = options.message ?? customMessage ?? errorInfo.details;
-
-        super(finalMessage);
+        const { configStore } = new.target as typeof HttpError;
+        const customMessage = configStore.getCustomMessage(code);
+        const template = options.message ?? customMessage;
+
+        // Messages passed in are literal text (they may contain user input) unless
+        // `params` is given; configured custom messages are filled from the metadata
+        const params = options.params === false
+            ? undefined
+            : options.params ?? (options.message === undefined ? options.metadata ?? {} : undefined);
+        const isTemplate = template !== undefined && params !== undefined;
+        const redaction = configStore.getRedaction();
+
+        super(isTemplate && hasPlaceholders(template)
+            ? formatMessage(template, redaction ? redact(params, redaction) : params)
+            : template ?? errorInfo.details);
 
         this.name = 'HttpError';
         this.code = errorInfo.code;
@@ -75,26 +143,59 @@ export class HttpError extends Error {
         this.metadata = options.metadata;
         this.cause = options.cause;
         this.retryAfter = options.retryAfter ?? errorInfo.retryAfter;
+        this.headers = options.headers;
+        this.errors = options.errors;
+        this.expose = options.expose ?? false;
+        this.appCode = options.appCode;
+        this.docsUrl = options.docsUrl;
+
+        if (isTemplate) {
+            this.messageTemplate = template;
+            this.messageParams = params;
+        }
 
         // Maintains proper stack trace for where error was thrown
         if (typeof (Error as any).captureStackTrace === 'function') {
-            (Error as any).captureStackTrace(this, HttpError);
+            (Error as any).captureStackTrace(this, new.target);
         }
     }
 
+    /**
+     * Opaque id correlating a masked response with server logs.
+     * Generated on first access and stable afterwards.
+     */
+    get reference(): string {
+        if (!this.referenceId) {
+            this.referenceId = generateReference();
+        }
+        return this.referenceId;
+    }
+
     /**
      * Convert error to plain object for JSON serialization
+     * (message, metadata and the cause chain go through the configured redaction;
+     * the cause chain is only included in development mode)
      */
     toJSON(): Record<string, unknown> {
+        const { configStore } = this.constructor as typeof HttpError;
+        const redaction = configStore.getRedaction();
+
         return {
             name: this.name,
             code: this.code,
+            appCode: this.appCode,
+            docsUrl: this.docsUrl,
             type: this.type,
             title: this.title,
-            message: this.message,
+            message: redaction ? redact(this.message, redaction) : this.message,
             details: this.details,
-            metadata: this.metadata,
+            metadata: redaction ? redact(this.metadata, redaction) : this.metadata,
+            errors: this.errors,
             retryAfter: this.retryAfter,
+            reference: this.referenceId,
+            causes: this.cause !== undefined && configStore.isDevelopment()
+                ? serializeErrorCauses(this.cause, { maxDepth: configStore.getMaxCauseDepth(), redaction })
+                : undefined,
         };
     }
 
@@ -104,147 +205,151 @@ export class HttpError extends Error {
 
     /** 400 Bad Request */
     static badRequest(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(400, { message, metadata });
+        return new (errorClassOf(this))(400, { message, metadata });
     }
 
-    /** 401 Unauthorized */
-    static unauthorized(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(401, { message, metadata });
+    /** 401 Unauthorized — optionally sets the `WWW-Authenticate` challenge */
+    static unauthorized(message?: string, metadata?: Record<string, unknown>, wwwAuthenticate?: string): HttpError {
+        const headers = wwwAuthenticate ? { 'WWW-Authenticate': wwwAuthenticate } : undefined;
+        return new (errorClassOf(this))(401, { message, metadata, headers });
     }
 
     /** 402 Payment Required */
     static paymentRequired(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(402, { message, metadata });
+        return new (errorClassOf(this))(402, { message, metadata });
     }
 
     /** 403 Forbidden */
     static forbidden(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(403, { message, metadata });
+        return new (errorClassOf(this))(403, { message, metadata });
     }
 
     /** 404 Not Found */
     static notFound(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(404, { message, metadata });
+        return new (errorClassOf(this))(404, { message, metadata });
     }
 
-    /** 405 Method Not Allowed */
-    static methodNotAllowed(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(405, { message, metadata });
+    /** 405 Method Not Allowed — optionally sets the `Allow` header */
+    static methodNotAllowed(message?: string, metadata?: Record<string, unknown>, allowedMethods?: string[]): HttpError {
+        const headers = allowedMethods?.length ? { Allow: allowedMethods.join(', ') } : undefined;
+        return new (errorClassOf(this))(405, { message, metadata, headers });
     }
 
     /** 406 Not Acceptable */
     static notAcceptable(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(406, { message, metadata });
+        return new (errorClassOf(this))(406, { message, metadata });
     }
 
-    /** 407 Proxy Authentication Required */
-    static proxyAuthenticationRequired(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(407, { message, metadata });
+    /** 407 Proxy Authentication Required — optionally sets the `Proxy-Authenticate` challenge */
+    static proxyAuthenticationRequired(message?: string, metadata?: Record<string, unknown>, proxyAuthenticate?: string): HttpError {
+        const headers = proxyAuthenticate ? { 'Proxy-Authenticate': proxyAuthenticate } : undefined;
+        return new (errorClassOf(this))(407, { message, metadata, headers });
     }
 
     /** 408 Request Timeout */
     static requestTimeout(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(408, { message, metadata });
+        return new (errorClassOf(this))(408, { message, metadata });
     }
 
     /** 409 Conflict */
     static conflict(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(409, { message, metadata });
+        return new (errorClassOf(this))(409, { message, metadata });
     }
 
     /** 410 Gone */
     static gone(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(410, { message, metadata });
+        return new (errorClassOf(this))(410, { message, metadata });
     }
 
     /** 411 Length Required */
     static lengthRequired(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(411, { message, metadata });
+        return new (errorClassOf(this))(411, { message, metadata });
     }
 
     /** 412 Precondition Failed */
     static preconditionFailed(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(412, { message, metadata });
+        return new (errorClassOf(this))(412, { message, metadata });
     }
 
     /** 413 Payload Too Large */
     static payloadTooLarge(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(413, { message, metadata });
+        return new (errorClassOf(this))(413, { message, metadata });
     }
 
     /** 414 URI Too Long */
     static uriTooLong(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(414, { message, metadata });
+        return new (errorClassOf(this))(414, { message, metadata });
     }
 
     /** 415 Unsupported Media Type */
     static unsupportedMediaType(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(415, { message, metadata });
+        return new (errorClassOf(this))(415, { message, metadata });
     }
 
-    /** 416 Range Not Satisfiable */
-    static rangeNotSatisfiable(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(416, { message, metadata });
+    /** 416 Range Not Satisfiable — optionally sets `Content-Range` from the complete length */
+    static rangeNotSatisfiable(message?: string, metadata?: Record<string, unknown>, completeLength?: number): HttpError {
+        const headers = completeLength !== undefined ? { 'Content-Range': `bytes */${completeLength}` } : undefined;
+        return new (errorClassOf(this))(416, { message, metadata, headers });
     }
 
     /** 417 Expectation Failed */
     static expectationFailed(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(417, { message, metadata });
+        return new (errorClassOf(this))(417, { message, metadata });
     }
 
     /** 418 I'm a Teapot */
     static imATeapot(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(418, { message, metadata });
+        return new (errorClassOf(this))(418, { message, metadata });
     }
 
     /** 421 Misdirected Request */
     static misdirectedRequest(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(421, { message, metadata });
+        return new (errorClassOf(this))(421, { message, metadata });
     }
 
     /** 422 Unprocessable Entity */
     static unprocessableEntity(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(422, { message, metadata });
+        return new (errorClassOf(this))(422, { message, metadata });
     }
 
     /** 423 Locked */
     static locked(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(423, { message, metadata });
+        return new (errorClassOf(this))(423, { message, metadata });
     }
 
     /** 424 Failed Dependency */
     static failedDependency(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(424, { message, metadata });
+        return new (errorClassOf(this))(424, { message, metadata });
     }
 
     /** 425 Too Early */
     static tooEarly(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(425, { message, metadata });
+        return new (errorClassOf(this))(425, { message, metadata });
     }
 
     /** 426 Upgrade Required */
     static upgradeRequired(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(426, { message, metadata });
+        return new (errorClassOf(this))(426, { message, metadata });
     }
 
     /** 428 Precondition Required */
     static preconditionRequired(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(428, { message, metadata });
+        return new (errorClassOf(this))(428, { message, metadata });
     }
 
     /** 429 Too Many Requests */
     static tooManyRequests(message?: string, retryAfter?: number, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(429, { message, metadata, retryAfter });
+        return new (errorClassOf(this))(429, { message, metadata, retryAfter });
     }
 
     /** 431 Request Header Fields Too Large */
     static requestHeaderFieldsTooLarge(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(431, { message, metadata });
+        return new (errorClassOf(this))(431, { message, metadata });
     }
 
     /** 451 Unavailable For Legal Reasons */
     static unavailableForLegalReasons(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(451, { message, metadata });
+        return new (errorClassOf(this))(451, { message, metadata });
     }
 
     // ========================================================================
@@ -253,62 +358,62 @@ export class HttpError extends Error {
 
     /** 500 Internal Server Error */
     static internalServerError(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(500, { message, metadata });
+        return new (errorClassOf(this))(500, { message, metadata });
     }
 
     /** 501 Not Implemented */
     static notImplemented(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(501, { message, metadata });
+        return new (errorClassOf(this))(501, { message, metadata });
     }
 
     /** 502 Bad Gateway */
     static badGateway(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(502, { message, metadata });
+        return new (errorClassOf(this))(502, { message, metadata });
     }
 
     /** 503 Service Unavailable */
     static serviceUnavailable(message?: string, retryAfter?: number, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(503, { message, metadata, retryAfter });
+        return new (errorClassOf(this))(503, { message, metadata, retryAfter });
     }
 
     /** 504 Gateway Timeout */
     static gatewayTimeout(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(504, { message, metadata });
+        return new (errorClassOf(this))(504, { message, metadata });
     }
 
     /** 505 HTTP Version Not Supported */
     static httpVersionNotSupported(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(505, { message, metadata });
+        return new (errorClassOf(this))(505, { message, metadata });
     }
 
     /** 506 Variant Also Negotiates */
     static variantAlsoNegotiates(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(506, { message, metadata });
+        return new (errorClassOf(this))(506, { message, metadata });
     }
 
     /** 507 Insufficient Storage */
     static insufficientStorage(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(507, { message, metadata });
+        return new (errorClassOf(this))(507, { message, metadata });
     }
 
     /** 508 Loop Detected */
     static loopDetected(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(508, { message, metadata });
+        return new (errorClassOf(this))(508, { message, metadata });
     }
 
     /** 509 Bandwidth Limit Exceeded */
     static bandwidthLimitExceeded(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(509, { message, metadata });
+        return new (errorClassOf(this))(509, { message, metadata });
     }
 
     /** 510 Not Extended */
     static notExtended(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(510, { message, metadata });
+        return new (errorClassOf(this))(510, { message, metadata });
     }
 
     /** 511 Network Authentication Required */
     static networkAuthenticationRequired(message?: string, metadata?: Record<string, unknown>): HttpError {
-        return new HttpError(511, { message, metadata });
+        return new (errorClassOf(this))(511, { message, metadata });
     }
 
     // ========================================================================
@@ -320,13 +425,14 @@ export class HttpError extends Error {
      * Semantic alias for `new HttpError(code)`.
      */
     static fromStatus(code: HttpClientErrorCode | HttpServerErrorCode | number, options?: HttpErrorOptions): HttpError {
-        return new HttpError(code, options);
+        return new (errorClassOf(this))(code, options);
     }
 
     /**
      * Create an HttpError from an unknown error
      */
     static fromError(error: unknown, fallbackCode = 500): HttpError {
+        const ErrorClass = errorClassOf(this);
         if (error instanceof HttpError) {
             return error;
         }
@@ -338,17 +444,148 @@ export class HttpError extends Error {
         }
 
         if (error instanceof Error) {
-            return new HttpError(fallbackCode, {
+            return new ErrorClass(fallbackCode, {
                 message: error.message,
+                params: false,
                 cause: error
             });
         }
 
-        return new HttpError(fallbackCode, {
-            message: String(error)
+        return new ErrorClass(fallbackCode, {
+            message: String(error),
+            params: false,
         });
     }
 
+    /**
+     * Create an HttpError from an RFC 9457 Problem Details document.
+     * `status` selects the definition, `detail` becomes the message,
+     * `retry_after` the retry hint, `errors` the field errors and `code`/`docs_url` the
+     * application error code and docs URL; remaining extension members (plus
+     * `type` and `instance`) are kept in `metadata`.
+     */
+    static fromProblemDetails(problem: Partial<ProblemDetails>, fallbackCode = 500): HttpError {
+        const {
+            type, title, status, detail, instance, retry_after, errors, code: appCode, docs_url,
+            details, timestamp, stack, frames, causes, ...extensions
+        } = problem;
+
+        const code = typeof status === 'number' && status >= 400 && status <= 599 ? status : fallbackCode;
+        const metadata: Record<string, unknown> = { ...extensions };
+
+        if (type !== undefined) {
+            metadata.type = type;
+        }
+
+        if (instance !== undefined) {
+            metadata.instance = instance;
+        }
+
+        return new (errorClassOf(this))(code, {
+            message: typeof detail === 'string' ? detail : undefined,
+            params: false,
+            metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+            retryAfter: typeof retry_after === 'number' ? retry_after : undefined,
+            errors: Array.isArray(errors) ? errors as FieldError[] : undefined,
+            appCode: typeof appCode === 'string' ? appCode : undefined,
+            docsUrl: typeof docs_url === 'string' ? docs_url : undefined,
+        });
+    }
+
+    /**
+     * Create an HttpError from a parsed response body.
+     * `ErrorResponse` envelopes restore type, title, message, details, metadata,
+     * retry hint, field errors and reference; Problem Details documents go through
+     * `fromProblemDetails()`. Any other body falls back to the definition of
+     * `status_code`/`status` or `fallbackCode`.
+     *
+     * @example
+     * ```ts
+     * const body = await res.json();
+     * if (!res.ok) throw HttpError.fromJSON(body, res.status);
+     * ```
+     */
+    static fromJSON(body: unknown, fallbackCode = 500): HttpError {
+        const ErrorClass = errorClassOf(this);
+        const isErrorCode = (value: unknown): value is number =>
+            typeof value === 'number' && value >= 400 && value <= 599;
+
+        if (!isRecord(body)) {
+            return new ErrorClass(fallbackCode);
+        }
+
+        if (body.success === false && isRecord(body.error)) {
+            const { type, title, message, code, docs_url, details, errors, reference, instance } = body.error;
+            const metadata: Record<string, unknown> = isRecord(body.metadata) ? { ...body.metadata } : {};
+
+            if (typeof instance === 'string') {
+                metadata.instance = instance;
+            }
+
+            const error = new ErrorClass(isErrorCode(body.status_code) ? body.status_code : fallbackCode, {
+                message: typeof message === 'string' ? message : undefined,
+                params: false,
+                metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+                retryAfter: typeof body.retry_after === 'number' ? body.retry_after : undefined,
+                errors: Array.isArray(errors) ? errors as FieldError[] : undefined,
+                appCode: typeof code === 'string' ? code : undefined,
+                docsUrl: typeof docs_url === 'string' ? docs_url : undefined,
+            });
+
+            // Keep the server's identifiers for custom or unmapped codes
+            Object.assign(error, {
+                ...(typeof type === 'string' ? { type } : undefined),
+                ...(typeof title === 'string' ? { title } : undefined),
+                ...(typeof details === 'string' ? { details } : undefined),
+            });
+
+            if (typeof reference === 'string') {
+                error.referenceId = reference;
+            }
+
+            return error;
+        }
+
+        if (isErrorCode(body.status) && typeof body.title === 'string') {
+            return ErrorClass.fromProblemDetails(body as Partial<ProblemDetails>, fallbackCode);
+        }
+
+        return new ErrorClass(isErrorCode(body.status_code) ? body.status_code : fallbackCode);
+    }
+
+    /**
+     * Create an HttpError from a fetch `Response` (or any compatible object).
+     * The body is parsed with `fromJSON()` using the response status as the
+     * fallback code, and a `Retry-After` header (seconds or HTTP-date) fills in
+     * the retry hint when the body has none.
+     *
+     * @example
+     * ```ts
+     * const res = await fetch('/api/users/42');
+     * if (!res.ok) throw await HttpError.fromResponse(res);
+     * ```
+     */
+    static async fromResponse(response: FetchResponseLike, fallbackCode = 500): Promise<HttpError> {
+        const code = response.status >= 400 && response.status <= 599 ? response.status : fallbackCode;
+        const text = await response.text().catch(() => '');
+
+        let body: unknown;
+        try {
+            body = text ? JSON.parse(text) : undefined;
+        } catch {
+            body = undefined;
+        }
+
+        const error = errorClassOf(this).fromJSON(body, code);
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+
+        if (retryAfter !== undefined && !(isRecord(body) && typeof body.retry_after === 'number')) {
+            Object.assign(error, { retryAfter });
+        }
+
+        return error;
+    }
+
     /**
      * Check if an error is an HttpError
      */
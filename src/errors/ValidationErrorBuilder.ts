@@ -0,0 +1,133 @@
+/**
+ * HTTP Response Kit - ValidationErrorBuilder Class
+ * @module errors/ValidationErrorBuilder
+ */
+
+import type { FieldError } from '../types';
+import { HttpClientErrorCode } from '../constants/status-codes';
+import { HttpError } from './HttpError';
+
+/**
+ * Status codes that can carry field-level validation errors
+ */
+export type ValidationErrorCode = HttpClientErrorCode.BAD_REQUEST | HttpClientErrorCode.UNPROCESSABLE_ENTITY | 400 | 422;
+
+/**
+ * Options for converting validation library errors to an HttpError
+ */
+export interface ValidationAdapterOptions {
+    /** Status code: 400 or 422 (default: 422) */
+    code?: ValidationErrorCode;
+    /** Custom error message */
+    message?: string;
+    /** Additional metadata */
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Format path segments as a dot/bracket field path.
+ *
+ * @example
+ * ```ts
+ * formatFieldPath(['items', 0, 'name']); // 'items[0].name'
+ * ```
+ */
+export function formatFieldPath(segments: ReadonlyArray<string | number>): string {
+    return segments.reduce<string>((path, segment) => {
+        if (typeof segment === 'number') {
+            return `${path}[${segment}]`;
+        }
+        return path ? `${path}.${segment}` : segment;
+    }, '');
+}
+
+/**
+ * Collects field-level validation errors and turns them into a 400/422 HttpError.
+ *
+ * @example
+ * ```ts
+ * const validation = new ValidationErrorBuilder()
+ *   .add('email', 'invalid_format', 'Email is not valid', { format: 'email' })
+ *   .add(['items', 0, 'quantity'], 'too_small', 'Quantity must be at least 1', { min: 1 });
+ *
+ * validation.throwIfErrors(); // throws a 422 HttpError with error.errors
+ * ```
+ */
+export class ValidationErrorBuilder {
+    private readonly fieldErrors: FieldError[] = [];
+
+    /**
+     * Add a field error
+     *
+     * @param path - Field path, as a string or path segments
+     * @param code - Machine-readable error code
+     * @param message - Human-readable message
+     * @param params - Parameters of the failed rule
+     */
+    add(path: string | ReadonlyArray<string | number>, code: string, message: string, params?: Record<string, unknown>): this {
+        const fieldError: FieldError = {
+            path: typeof path === 'string' ? path : formatFieldPath(path),
+            code,
+            message,
+        };
+
+        if (params && Object.keys(params).length > 0) {
+            fieldError.params = params;
+        }
+
+        this.fieldErrors.push(fieldError);
+        return this;
+    }
+
+    /**
+     * Add several field errors at once
+     */
+    addAll(errors: ReadonlyArray<FieldError>): this {
+        for (const { path, code, message, params } of errors) {
+            this.add(path, code, message, params);
+        }
+        return this;
+    }
+
+    /**
+     * Check if any error was collected
+     */
+    hasErrors(): boolean {
+        return this.fieldErrors.length > 0;
+    }
+
+    /**
+     * Get a copy of the collected errors
+     */
+    get errors(): FieldError[] {
+        return [...this.fieldErrors];
+    }
+
+    /**
+     * Build an HttpError carrying the collected errors
+     *
+     * @param code - 400 or 422 (default: 422)
+     * @param message - Optional custom message
+     * @param metadata - Optional additional metadata
+     */
+    toHttpError(
+        code: ValidationErrorCode = HttpClientErrorCode.UNPROCESSABLE_ENTITY,
+        message?: string,
+        metadata?: Record<string, unknown>
+    ): HttpError {
+        return new HttpError(code, { message, metadata, errors: this.errors });
+    }
+
+    /**
+     * Throw the HttpError built by `toHttpError()` if any error was collected
+     */
+    throwIfErrors(
+        code: ValidationErrorCode = HttpClientErrorCode.UNPROCESSABLE_ENTITY,
+        message?: string,
+        metadata?: Record<string, unknown>
+    ): void {
+        if (this.hasErrors()) {
+            throw this.toHttpError(code, message, metadata);
+        }
+    }
+}
@@ -0,0 +1,179 @@
+/**
+ * HTTP Response Kit - Application Error Catalog
+ * @module errors/error-catalog
+ */
+
+import type { ResponseHeaders } from '../types';
+import type { HttpError } from './HttpError';
+import { defaultResponseKit } from '../kit';
+import type { ResponseKit } from '../kit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Metadata field types mapped to their TypeScript types
+ */
+interface MetadataFieldTypes {
+    string: string;
+    number: number;
+    boolean: boolean;
+    object: Record<string, unknown>;
+    array: unknown[];
+}
+
+/**
+ * Type of a metadata field; a trailing `?` marks it as optional
+ */
+export type MetadataFieldType = keyof MetadataFieldTypes | `${keyof MetadataFieldTypes}?`;
+
+/**
+ * Metadata schema of a catalog entry (field name → field type)
+ */
+export type MetadataSchema = Record<string, MetadataFieldType>;
+
+type RequiredFields<S extends MetadataSchema> = {
+    [K in keyof S]: S[K] extends `${string}?` ? never : K;
+}[keyof S];
+
+type OptionalFields<S extends MetadataSchema> = Exclude<keyof S, RequiredFields<S>>;
+
+/**
+ * Metadata type described by a schema
+ */
+export type InferMetadata<S extends MetadataSchema> = {
+    [K in RequiredFields<S>]: MetadataFieldTypes[S[K] & keyof MetadataFieldTypes];
+} & {
+    [K in OptionalFields<S>]?: S[K] extends `${infer T}?` ? MetadataFieldTypes[T & keyof MetadataFieldTypes] : never;
+};
+
+/**
+ * Definition of an application error
+ */
+export interface ErrorCatalogEntry<S extends MetadataSchema = MetadataSchema> {
+    /** HTTP status code (400–599) */
+    status: number;
+    /** Default message template; placeholders are filled from the metadata (see `formatMessage()`) */
+    message: string;
+    /** Metadata fields the error carries */
+    metadata?: S;
+    /** Documentation URL (default: `docsBaseUrl` + code, when configured) */
+    docsUrl?: string;
+    /** Mark the message as safe to expose even when error masking applies (default: true) */
+    expose?: boolean;
+}
+
+/**
+ * Per-call options of a catalog error factory
+ */
+export interface CatalogErrorOptions {
+    /** Override the entry's message */
+    message?: string;
+    /** Original error cause */
+    cause?: Error;
+    /** HTTP response headers */
+    headers?: ResponseHeaders;
+    /** Retry-after time in seconds */
+    retryAfter?: number;
+}
+
+/**
+ * Factory creating the `HttpError` of one catalog entry
+ */
+export type CatalogErrorFactory<S extends MetadataSchema> = (
+    RequiredFields<S> extends never
+        ? (metadata?: InferMetadata<S>, options?: CatalogErrorOptions) => HttpError
+        : (metadata: InferMetadata<S>, options?: CatalogErrorOptions) => HttpError
+) & {
+    /** Application error code */
+    readonly code: string;
+    /** HTTP status code */
+    readonly status: number;
+    /** Documentation URL */
+    readonly docsUrl?: string;
+    /** Check if an error was created from this entry */
+    is(error: unknown): error is HttpError;
+};
+
+/**
+ * Catalog of error factories keyed by application error code
+ */
+export type ErrorCatalog<E extends Record<string, ErrorCatalogEntry>> = {
+    readonly [K in keyof E]: CatalogErrorFactory<E[K] extends { metadata: infer S extends MetadataSchema } ? S : {}>;
+};
+
+/**
+ * Options for `defineErrorCatalog()`
+ */
+export interface ErrorCatalogOptions {
+    /** Base URL for documentation links: `${docsBaseUrl}/${code}` */
+    docsBaseUrl?: string;
+    /** Kit whose `HttpError` class is instantiated (default: global configuration) */
+    kit?: ResponseKit;
+}
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+/**
+ * Define a catalog of application errors with stable machine codes.
+ * Each entry becomes a factory returning an `HttpError` that carries the code
+ * (`error.appCode`, serialized as `error.code`) next to the HTTP `type`.
+ *
+ * @example
+ * ```ts
+ * export const AppErrors = defineErrorCatalog({
+ *   USER_EMAIL_TAKEN: {
+ *     status: 409,
+ *     message: 'The email {email} is already registered',
+ *     metadata: { email: 'string' },
+ *   },
+ *   PLAN_LIMIT_REACHED: { status: 402, message: 'Upgrade your plan to add more projects' },
+ * }, { docsBaseUrl: 'https://docs.example.com/errors' });
+ *
+ * throw AppErrors.USER_EMAIL_TAKEN({ email });
+ * // { ..., error: { type: 'conflict', code: 'USER_EMAIL_TAKEN',
+ * //   message: 'The email ada@example.com is already registered',
+ * //   docs_url: 'https://docs.example.com/errors/USER_EMAIL_TAKEN' }, metadata: { email: '...' } }
+ * ```
+ */
+export function defineErrorCatalog<const E extends Record<string, ErrorCatalogEntry>>(
+    entries: E,
+    options: ErrorCatalogOptions = {}
+): ErrorCatalog<E> {
+    const { docsBaseUrl, kit = defaultResponseKit } = options;
+    const catalog: Record<string, unknown> = {};
+
+    for (const [code, entry] of Object.entries(entries)) {
+        if (!Number.isInteger(entry.status) || entry.status < 400 || entry.status > 599) {
+            throw new RangeError(`Catalog entry ${code} must use a status between 400 and 599, got ${entry.status}`);
+        }
+
+        const docsUrl = entry.docsUrl ?? (docsBaseUrl ? `${docsBaseUrl.replace(/\/+$/, '')}/${code}` : undefined);
+
+        const factory = (metadata?: Record<string, unknown>, callOptions: CatalogErrorOptions = {}): HttpError =>
+            new kit.HttpError(entry.status, {
+                message: callOptions.message ?? entry.message,
+                params: callOptions.message === undefined ? metadata ?? {} : undefined,
+                metadata: metadata && Object.keys(metadata).length > 0 ? { ...metadata } : undefined,
+                cause: callOptions.cause,
+                headers: callOptions.headers,
+                retryAfter: callOptions.retryAfter,
+                expose: entry.expose ?? true,
+                appCode: code,
+                docsUrl,
+            });
+
+        catalog[code] = Object.assign(factory, {
+            code,
+            status: entry.status,
+            docsUrl,
+            is: (error: unknown): error is HttpError =>
+                kit.HttpError.isHttpError(error) && error.appCode === code,
+        });
+    }
+
+    return Object.freeze(catalog) as ErrorCatalog<E>;
+}
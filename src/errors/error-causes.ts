@@ -0,0 +1,98 @@
+/**
+ * HTTP Response Kit - Error Cause Serialization
+ * @module errors/error-causes
+ */
+
+import type { RedactionConfig, SerializedErrorCause, StackTraceConfig } from '../types';
+import { redactString } from '../redaction';
+import { formatStackTrace } from './stack-trace';
+
+/**
+ * Default maximum depth of serialized cause chains
+ */
+export const DEFAULT_MAX_CAUSE_DEPTH = 5;
+
+/**
+ * Options for serializing cause chains
+ */
+export interface SerializeErrorCausesOptions {
+    /** Maximum number of nested levels (chain links and `AggregateError` children) (default: 5) */
+    maxDepth?: number;
+    /** Include each cause's stack trace (default: false) */
+    includeStack?: boolean;
+    /** Stack trace format and path cleanup (default: raw string) */
+    stackTrace?: StackTraceConfig;
+    /** Redaction applied to messages and stack traces (default: none) */
+    redaction?: RedactionConfig;
+}
+
+/**
+ * Check for an `AggregateError`-like value (an Error with an `errors` array)
+ */
+function isAggregateError(value: unknown): value is Error & { errors: unknown[] } {
+    return value instanceof Error && Array.isArray((value as { errors?: unknown }).errors);
+}
+
+/**
+ * Serialize an error's `cause` chain, starting with the given cause.
+ *
+ * The chain is returned as a flat array (each entry is the cause of the previous
+ * one). `AggregateError` entries list their children under `errors`, each with its
+ * own chain under `causes`. Causes already visited are skipped, and nothing beyond
+ * `maxDepth` levels is serialized.
+ *
+ * @example
+ * ```ts
+ * const error = new Error('Query failed', { cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }) });
+ * serializeErrorCauses(error);
+ * // [{ name: 'Error', message: 'Query failed' },
+ * //  { name: 'Error', message: 'connect ECONNREFUSED', code: 'ECONNREFUSED' }]
+ * ```
+ */
+export function serializeErrorCauses(cause: unknown, options: SerializeErrorCausesOptions = {}): SerializedErrorCause[] {
+    const { maxDepth = DEFAULT_MAX_CAUSE_DEPTH, includeStack = false, stackTrace, redaction } = options;
+    const seen = new Set<unknown>();
+    const clean = (value: string): string => (redaction ? redactString(value, redaction) : value);
+
+    const describe = (value: unknown, depth: number): SerializedErrorCause => {
+        if (!(value instanceof Error)) {
+            return { name: typeof value, message: clean(String(value)) };
+        }
+
+        const entry: SerializedErrorCause = { name: value.name, message: clean(value.message) };
+        const { code } = value as { code?: unknown };
+
+        if (typeof code === 'string' || typeof code === 'number') {
+            entry.code = code;
+        }
+
+        if (includeStack && value.stack) {
+            Object.assign(entry, formatStackTrace(clean(value.stack), stackTrace));
+        }
+
+        if (isAggregateError(value) && depth + 1 < maxDepth) {
+            entry.errors = value.errors
+                .map((child) => walk(child, depth + 1))
+                .filter((chain) => chain.length > 0)
+                .map(([head, ...causes]) => (causes.length > 0 ? { ...head, causes } : head));
+        }
+
+        return entry;
+    };
+
+    const walk = (start: unknown, depth: number): SerializedErrorCause[] => {
+        const chain: SerializedErrorCause[] = [];
+        let current = start;
+
+        while (current !== undefined && current !== null && depth < maxDepth && !seen.has(current)) {
+            seen.add(current);
+            chain.push(describe(current, depth));
+            current = current instanceof Error ? (current as { cause?: unknown }).cause : undefined;
+            depth++;
+        }
+
+        return chain;
+    };
+
+    return walk(cause, 0);
+}
@@ -0,0 +1,79 @@
+/**
+ * HTTP Response Kit - Message Templates
+ * @module errors/message-template
+ */
+
+/**
+ * `{name}`, `{user.id}` or `{name|fallback}` placeholders, and `{{`/`}}` escapes
+ */
+const TOKEN = /\{\{|\}\}|\{([A-Za-z_$][\w$]*(?:\.[\w$]+)*)(?:\|([^{}]*))?\}/g;
+
+/**
+ * Resolve a dotted path in the parameters
+ */
+function resolveParam(params: Record<string, unknown>, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+        params
+    );
+}
+
+/**
+ * Convert a parameter value to display text
+ */
+function stringifyParam(value: unknown): string {
+    if (value instanceof Date) {
+        return Number.isNaN(value.getTime()) ? String(value) : value.toISOString();
+    }
+
+    if (typeof value === 'object' && value !== null) {
+        try {
+            return JSON.stringify(value);
+        } catch {
+            return '[object]';
+        }
+    }
+
+    return String(value);
+}
+
+/**
+ * Check if a message contains template placeholders
+ */
+export function hasPlaceholders(template: string): boolean {
+    return Array.from(template.matchAll(TOKEN)).some((match) => match[1] !== undefined);
+}
+
+/**
+ * Fill the placeholders of a message template.
+ *
+ * - `{name}` and `{user.id}` are replaced with the parameter value
+ * - `{name|fallback}` uses the fallback text when the parameter is missing
+ * - placeholders without a value or fallback are kept as written
+ * - `{{` and `}}` produce literal braces
+ *
+ * Substituted values are inserted as plain text and never interpreted as
+ * templates themselves.
+ *
+ * @example
+ * ```ts
+ * formatMessage('{resource} with id {id} was not found', { resource: 'User', id: 42 });
+ * // 'User with id 42 was not found'
+ * formatMessage('{resource|Resource} not found', {}); // 'Resource not found'
+ * ```
+ */
+export function formatMessage(template: string, params: Record<string, unknown> = {}): string {
+    return template.replace(TOKEN, (token, path: string | undefined, fallback: string | undefined) => {
+        if (path === undefined) {
+            return token[0];
+        }
+
+        const value = resolveParam(params, path);
+
+        if (value !== undefined && value !== null) {
+            return stringifyParam(value);
+        }
+
+        return fallback ?? token;
+    });
+}
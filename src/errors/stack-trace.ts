@@ -0,0 +1,135 @@
+/**
+ * HTTP Response Kit - Stack Trace Formatting
+ * @module errors/stack-trace
+ */
+
+import type { StackFrame, StackTraceConfig } from '../types';
+
+/**
+ * Get the default project root (the working directory, where available)
+ */
+function getDefaultRootDir(): string | undefined {
+    return typeof process !== 'undefined' && typeof process.cwd === 'function' ? process.cwd() : undefined;
+}
+
+/**
+ * Resolve the configured project root without trailing separators
+ */
+function resolveRootDir(rootDir: StackTraceConfig['rootDir']): string | undefined {
+    const root = rootDir === undefined ? getDefaultRootDir() : rootDir || undefined;
+    return root?.replace(/[\\/]+$/, '') || undefined;
+}
+
+/**
+ * Strip the project root from every path in a string
+ */
+function stripRootDir(value: string, root: string | undefined): string {
+    if (!root) {
+        return value;
+    }
+
+    return [`file://${root}/`, `${root}/`, `${root}\\`].reduce((result, prefix) => result.split(prefix).join(''), value);
+}
+
+/**
+ * Parse one `    at ...` line of a V8 stack trace
+ */
+function parseFrame(line: string, root: string | undefined): StackFrame | undefined {
+    const match = /^\s*at\s+(?:(.*?)\s+\((.*)\)|(.*))$/.exec(line);
+    if (!match) {
+        return undefined;
+    }
+
+    const name = match[1];
+    const location = match[2] ?? match[3];
+    const position = /^(.*?)(?::(\d+))?(?::(\d+))?$/.exec(location);
+    const file = position?.[1] ? stripRootDir(position[1], root).replace(/^file:\/\//, '') : undefined;
+
+    const frame: StackFrame = {
+        isNodeModule: file !== undefined && /(^|[\\/])node_modules[\\/]/.test(file),
+        isInternal: file !== undefined && /^(node:|internal[\\/])/.test(file),
+    };
+
+    if (name) {
+        frame.function = name;
+    }
+
+    if (file) {
+        frame.file = file;
+    }
+
+    if (position?.[2]) {
+        frame.line = Number(position[2]);
+    }
+
+    if (position?.[3]) {
+        frame.column = Number(position[3]);
+    }
+
+    return frame;
+}
+
+/**
+ * Parse a V8 stack trace into structured frames.
+ * Paths inside the project root are made relative, and consecutive
+ * `node_modules` / Node.js internal frames are collapsed into the first frame
+ * of each run (its `collapsed` count gives the number of hidden frames).
+ *
+ * @example
+ * ```ts
+ * parseStackTrace(error.stack, { rootDir: '/srv/app' });
+ * // [{ function: 'getUser', file: 'src/users.ts', line: 12, column: 11, isNodeModule: false, isInternal: false },
+ * //  { function: 'Layer.handle', file: 'node_modules/express/lib/router/layer.js', line: 95, column: 5,
+ * //    isNodeModule: true, isInternal: false, collapsed: 4 }]
+ * ```
+ */
+export function parseStackTrace(stack: string, config: StackTraceConfig = {}): StackFrame[] {
+    const { rootDir, collapseNodeModules = true, collapseInternals = true } = config;
+    const root = resolveRootDir(rootDir);
+    const frames: StackFrame[] = [];
+
+    for (const line of stack.split('\n')) {
+        const frame = parseFrame(line, root);
+        if (!frame) {
+            continue;
+        }
+
+        const previous = frames[frames.length - 1];
+        const collapsible = (collapseNodeModules && frame.isNodeModule) || (collapseInternals && frame.isInternal);
+
+        if (
+            collapsible &&
+            previous &&
+            previous.isNodeModule === frame.isNodeModule &&
+            previous.isInternal === frame.isInternal
+        ) {
+            previous.collapsed = (previous.collapsed ?? 0) + 1;
+            continue;
+        }
+
+        frames.push(frame);
+    }
+
+    return frames;
+}
+
+/**
+ * Format a stack trace for a response according to the stack trace settings
+ *
+ * @returns The relativized `stack` string and/or parsed `frames`
+ */
+export function formatStackTrace(
+    stack: string | undefined,
+    config: StackTraceConfig = {}
+): { stack?: string; frames?: StackFrame[] } {
+    const { format = 'string' } = config;
+
+    if (stack === undefined) {
+        return {};
+    }
+
+    return {
+        ...(format !== 'frames' ? { stack: stripRootDir(stack, resolveRootDir(config.rootDir)) } : undefined),
+        ...(format !== 'string' ? { frames: parseStackTrace(stack, config) } : undefined),
+    };
+}
@@ -0,0 +1,149 @@
+/**
+ * HTTP Response Kit - Internationalization
+ * @module i18n
+ */
+
+import type { HttpErrorInfo, I18nConfig, LocaleBundle } from '../types';
+import { getErrorDefinition } from '../constants/error-definitions';
+import { de } from './locales/de';
+import { es } from './locales/es';
+import { fr } from './locales/fr';
+import { it } from './locales/it';
+
+/**
+ * Bundled translations of the built-in error definitions
+ */
+export const BuiltInLocales: Readonly<Record<string, LocaleBundle>> = Object.freeze({ de, es, fr, it });
+
+/**
+ * Locale of the built-in texts
+ */
+const DEFAULT_LOCALE = 'en';
+
+/**
+ * Parse an `Accept-Language` header into language tags ordered by preference.
+ * Tags with `q=0` and the `*` wildcard are dropped; a plain tag such as
+ * `'it-CH'` is returned as is.
+ *
+ * @example
+ * ```ts
+ * parseAcceptLanguage('fr-CH, fr;q=0.9, en;q=0.8, *;q=0.5'); // ['fr-CH', 'fr', 'en']
+ * ```
+ */
+export function parseAcceptLanguage(header: string): string[] {
+    return header
+        .split(',')
+        .map((entry, index) => {
+            const [tag, ...params] = entry.trim().split(';');
+            const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+            const quality = q === undefined ? 1 : Number(q.slice(2));
+            return { tag: tag.trim(), quality: Number.isNaN(quality) ? 0 : quality, index };
+        })
+        .filter(({ tag, quality }) => tag !== '' && tag !== '*' && quality > 0)
+        .sort((a, b) => b.quality - a.quality || a.index - b.index)
+        .map(({ tag }) => tag);
+}
+
+/**
+ * Get a tag followed by its less specific forms: `'zh-Hant-TW'` → `['zh-Hant-TW', 'zh-Hant', 'zh']`
+ */
+function truncations(tag: string): string[] {
+    const subtags = tag.split(/[-_]/);
+    return subtags.map((_, index) => subtags.slice(0, subtags.length - index).join('-'));
+}
+
+/**
+ * Resolves translations for one requested locale by walking its fallback
+ * chain (`it-CH` → `it` → default locale). Configured bundles take precedence
+ * over the built-in ones at each step.
+ */
+export class Translator {
+    /** Best matching available locale (e.g. for `Content-Language`) */
+    readonly locale: string;
+
+    /** Lowercase tags looked up in order */
+    readonly chain: readonly string[];
+
+    private readonly bundles: ReadonlyArray<Map<string, LocaleBundle>>;
+
+    /**
+     * @param requested - Locale tag or `Accept-Language` value (default: the default locale)
+     * @param config - Localization settings
+     */
+    constructor(requested: string | undefined, config: I18nConfig = {}) {
+        const defaultLocale = config.defaultLocale ?? DEFAULT_LOCALE;
+        const toMap = (locales: Record<string, LocaleBundle>) =>
+            new Map(Object.entries(locales).map(([tag, bundle]) => [tag.toLowerCase(), bundle]));
+
+        this.bundles = [
+            toMap(config.locales ?? {}),
+            ...(config.builtInLocales === false ? [] : [toMap(BuiltInLocales)]),
+        ];
+
+        const isAvailable = (tag: string) =>
+            tag.toLowerCase() === defaultLocale.toLowerCase() || this.bundles.some((bundles) => bundles.has(tag.toLowerCase()));
+
+        // First preferred tag that is available itself or through a less specific form
+        let preferred: string[] = [];
+        for (const tag of parseAcceptLanguage(requested ?? '')) {
+            const candidates = truncations(tag);
+            if (candidates.some(isAvailable)) {
+                preferred = candidates;
+                break;
+            }
+        }
+
+        this.locale = preferred.find(isAvailable) ?? defaultLocale;
+        this.chain = [...new Set([...preferred, ...truncations(defaultLocale)].map((tag) => tag.toLowerCase()))];
+    }
+
+    /**
+     * Look up a translation along the fallback chain
+     *
+     * @returns The translated text, or `undefined` if no bundle in the chain has one
+     */
+    lookup(section: keyof LocaleBundle, key: string | number): string | undefined {
+        for (const tag of this.chain) {
+            for (const bundles of this.bundles) {
+                const text = (bundles.get(tag)?.[section] as Record<string | number, string> | undefined)?.[key];
+                if (text !== undefined) {
+                    return text;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Translate the title, details and resolution of an error definition
+     */
+    localizeDefinition(definition: HttpErrorInfo): HttpErrorInfo {
+        const localized: HttpErrorInfo = {
+            ...definition,
+            title: this.lookup('titles', definition.code) ?? definition.title,
+            details: this.lookup('details', definition.code) ?? definition.details,
+        };
+
+        if (definition.resolution !== undefined) {
+            localized.resolution = this.lookup('resolutions', definition.code) ?? definition.resolution;
+        }
+
+        return localized;
+    }
+}
+
+/**
+ * Get an error definition with its texts translated
+ *
+ * @param code - HTTP status code (400–599)
+ * @param locale - Locale tag or `Accept-Language` value
+ * @param config - Localization settings (default: built-in bundles only)
+ *
+ * @example
+ * ```ts
+ * localizeErrorDefinition(404, 'de-AT').title; // 'Nicht gefunden'
+ * ```
+ */
+export function localizeErrorDefinition(code: number, locale: string, config: I18nConfig = {}): HttpErrorInfo {
+    return new Translator(locale, config).localizeDefinition(getErrorDefinition(code));
+}
@@ -0,0 +1,101 @@
+/**
+ * HTTP Response Kit - German Locale
+ * @module i18n/locales/de
+ */
+
+import type { LocaleBundle } from '../../types';
+
+/**
+ * German titles and descriptions of the built-in error definitions
+ */
+export const de: LocaleBundle = {
+    titles: {
+        400: 'Ungültige Anfrage',
+        401: 'Nicht autorisiert',
+        402: 'Zahlung erforderlich',
+        403: 'Verboten',
+        404: 'Nicht gefunden',
+        405: 'Methode nicht erlaubt',
+        406: 'Nicht akzeptabel',
+        407: 'Proxy-Authentifizierung erforderlich',
+        408: 'Zeitüberschreitung der Anfrage',
+        409: 'Konflikt',
+        410: 'Nicht mehr verfügbar',
+        411: 'Länge erforderlich',
+        412: 'Vorbedingung fehlgeschlagen',
+        413: 'Nutzlast zu groß',
+        414: 'URI zu lang',
+        415: 'Nicht unterstützter Medientyp',
+        416: 'Bereich nicht erfüllbar',
+        417: 'Erwartung fehlgeschlagen',
+        418: 'Ich bin eine Teekanne',
+        421: 'Fehlgeleitete Anfrage',
+        422: 'Nicht verarbeitbare Entität',
+        423: 'Gesperrt',
+        424: 'Fehlgeschlagene Abhängigkeit',
+        425: 'Zu früh',
+        426: 'Upgrade erforderlich',
+        428: 'Vorbedingung erforderlich',
+        429: 'Zu viele Anfragen',
+        431: 'Header-Felder der Anfrage zu groß',
+        451: 'Aus rechtlichen Gründen nicht verfügbar',
+        500: 'Interner Serverfehler',
+        501: 'Nicht implementiert',
+        502: 'Fehlerhaftes Gateway',
+        503: 'Dienst nicht verfügbar',
+        504: 'Gateway-Zeitüberschreitung',
+        505: 'HTTP-Version nicht unterstützt',
+        506: 'Variante verhandelt ebenfalls',
+        507: 'Unzureichender Speicher',
+        508: 'Schleife erkannt',
+        509: 'Bandbreitenlimit überschritten',
+        510: 'Nicht erweitert',
+        511: 'Netzwerkauthentifizierung erforderlich',
+    },
+    details: {
+        400: 'Die Anfrage kann aufgrund ungültiger Syntax oder fehlender Parameter nicht verarbeitet werden.',
+        401: 'Eine Authentifizierung ist erforderlich und ist fehlgeschlagen oder wurde noch nicht bereitgestellt.',
+        402: 'Für den Zugriff auf diese Ressource ist eine Zahlung erforderlich.',
+        403: 'Der Server hat die Anfrage verstanden, verweigert jedoch die Autorisierung.',
+        404: 'Die angeforderte Ressource wurde nicht gefunden.',
+        405: 'Die in der Anfrage angegebene Methode ist für diese Ressource nicht erlaubt.',
+        406: 'Die Ressource ist in keinem für den Client akzeptablen Format verfügbar.',
+        407: 'Eine Authentifizierung beim Proxy ist erforderlich.',
+        408: 'Beim Warten auf die Anfrage ist beim Server eine Zeitüberschreitung aufgetreten.',
+        409: 'Die Anfrage steht im Konflikt mit dem aktuellen Zustand der Ressource.',
+        410: 'Die angeforderte Ressource ist nicht mehr verfügbar und wird es auch nicht wieder sein.',
+        411: 'Die Anfrage hat die erforderliche Länge ihres Inhalts nicht angegeben.',
+        412: 'Eine oder mehrere Bedingungen in den Header-Feldern der Anfrage wurden als falsch ausgewertet.',
+        413: 'Die Nutzlast der Anfrage ist größer, als der Server verarbeiten möchte.',
+        414: 'Der angegebene URI war zu lang, um vom Server verarbeitet zu werden.',
+        415: 'Das Medienformat der angeforderten Daten wird vom Server nicht unterstützt.',
+        416: 'Der im Anfrage-Header angegebene Bereich kann nicht erfüllt werden.',
+        417: 'Der Server kann die Anforderungen des Expect-Header-Felds nicht erfüllen.',
+        418: 'Der Server weigert sich, Kaffee zu kochen, da er dauerhaft eine Teekanne ist.',
+        421: 'Die Anfrage wurde an einen Server gerichtet, der keine Antwort erzeugen kann.',
+        422: 'Die Anfrage war korrekt formatiert, konnte aber aufgrund semantischer Fehler nicht ausgeführt werden.',
+        423: 'Die Ressource, auf die zugegriffen wird, ist gesperrt.',
+        424: 'Die Anfrage ist fehlgeschlagen, weil eine Anfrage, von der sie abhing, fehlgeschlagen ist.',
+        425: 'Der Server ist nicht bereit, eine möglicherweise wiederholte Anfrage zu verarbeiten.',
+        426: 'Der Client sollte zu einem anderen Protokoll wechseln.',
+        428: 'Der Ursprungsserver verlangt, dass die Anfrage bedingt ist.',
+        429: 'Der Benutzer hat in einem bestimmten Zeitraum zu viele Anfragen gesendet.',
+        431: 'Der Server verarbeitet die Anfrage nicht, da ihre Header-Felder zu groß sind.',
+        451: 'Die Ressource ist aufgrund rechtlicher Forderungen nicht verfügbar.',
+        500: 'Auf dem Server ist ein unerwarteter Fehler aufgetreten.',
+        501: 'Der Server unterstützt die zur Erfüllung der Anfrage erforderliche Funktionalität nicht.',
+        502: 'Der Server hat eine ungültige Antwort von einem Upstream-Server erhalten.',
+        503: 'Der Server kann die Anfrage aufgrund vorübergehender Überlastung oder Wartung derzeit nicht bearbeiten.',
+        504: 'Der Server hat keine rechtzeitige Antwort von einem Upstream-Server erhalten.',
+        505: 'Der Server unterstützt die in der Anfrage verwendete HTTP-Protokollversion nicht.',
+        506: 'Bei der Inhaltsaushandlung ist ein interner Konfigurationsfehler des Servers aufgetreten.',
+        507: 'Der Server kann die zur Erfüllung der Anfrage benötigte Darstellung nicht speichern.',
+        508: 'Der Server hat bei der Verarbeitung der Anfrage eine Endlosschleife erkannt.',
+        509: 'Der Server hat das Bandbreitenlimit überschritten.',
+        510: 'Zur Erfüllung der Anfrage sind weitere Erweiterungen der Anfrage erforderlich.',
+        511: 'Der Client muss sich authentifizieren, um Netzwerkzugang zu erhalten.',
+    },
+    resolutions: {
+        503: 'Versuchen Sie es nach kurzer Zeit erneut oder wenden Sie sich an den Support.',
+    },
+};
@@ -0,0 +1,101 @@
+/**
+ * HTTP Response Kit - Spanish Locale
+ * @module i18n/locales/es
+ */
+
+import type { LocaleBundle } from '../../types';
+
+/**
+ * Spanish titles and descriptions of the built-in error definitions
+ */
+export const es: LocaleBundle = {
+    titles: {
+        400: 'Solicitud incorrecta',
+        401: 'No autorizado',
+        402: 'Pago requerido',
+        403: 'Prohibido',
+        404: 'No encontrado',
+        405: 'Método no permitido',
+        406: 'No aceptable',
+        407: 'Autenticación de proxy requerida',
+        408: 'Tiempo de espera de la solicitud agotado',
+        409: 'Conflicto',
+        410: 'Ya no disponible',
+        411: 'Longitud requerida',
+        412: 'Precondición fallida',
+        413: 'Carga demasiado grande',
+        414: 'URI demasiado largo',
+        415: 'Tipo de medio no admitido',
+        416: 'Rango no satisfacible',
+        417: 'Expectativa fallida',
+        418: 'Soy una tetera',
+        421: 'Solicitud mal dirigida',
+        422: 'Entidad no procesable',
+        423: 'Bloqueado',
+        424: 'Dependencia fallida',
+        425: 'Demasiado pronto',
+        426: 'Actualización requerida',
+        428: 'Precondición requerida',
+        429: 'Demasiadas solicitudes',
+        431: 'Campos de encabezado de solicitud demasiado grandes',
+        451: 'No disponible por motivos legales',
+        500: 'Error interno del servidor',
+        501: 'No implementado',
+        502: 'Puerta de enlace incorrecta',
+        503: 'Servicio no disponible',
+        504: 'Tiempo de espera de la puerta de enlace agotado',
+        505: 'Versión de HTTP no admitida',
+        506: 'La variante también negocia',
+        507: 'Almacenamiento insuficiente',
+        508: 'Bucle detectado',
+        509: 'Límite de ancho de banda excedido',
+        510: 'No extendido',
+        511: 'Autenticación de red requerida',
+    },
+    details: {
+        400: 'La solicitud no se puede procesar debido a una sintaxis no válida o a parámetros faltantes.',
+        401: 'Se requiere autenticación y ha fallado o aún no se ha proporcionado.',
+        402: 'Se requiere un pago para acceder a este recurso.',
+        403: 'El servidor entendió la solicitud, pero se niega a autorizarla.',
+        404: 'No se pudo encontrar el recurso solicitado.',
+        405: 'El método indicado en la solicitud no está permitido para este recurso.',
+        406: 'El recurso no está disponible en un formato aceptable para el cliente.',
+        407: 'Se requiere autenticación con el proxy.',
+        408: 'El servidor agotó el tiempo de espera de la solicitud.',
+        409: 'La solicitud entra en conflicto con el estado actual del recurso.',
+        410: 'El recurso solicitado ya no está disponible y no volverá a estarlo.',
+        411: 'La solicitud no especificó la longitud de su contenido, que es obligatoria.',
+        412: 'Una o más condiciones de los encabezados de la solicitud se evaluaron como falsas.',
+        413: 'La carga de la solicitud es mayor de lo que el servidor está dispuesto a procesar.',
+        414: 'El URI proporcionado es demasiado largo para que el servidor lo procese.',
+        415: 'El servidor no admite el formato de medio de los datos solicitados.',
+        416: 'El rango especificado en el encabezado de la solicitud no se puede satisfacer.',
+        417: 'El servidor no puede cumplir los requisitos del campo de encabezado Expect.',
+        418: 'El servidor se niega a preparar café porque es, permanentemente, una tetera.',
+        421: 'La solicitud se dirigió a un servidor que no puede producir una respuesta.',
+        422: 'La solicitud estaba bien formada, pero no se pudo procesar debido a errores semánticos.',
+        423: 'El recurso al que se está accediendo está bloqueado.',
+        424: 'La solicitud falló porque dependía de otra solicitud que falló.',
+        425: 'El servidor no está dispuesto a procesar una solicitud que podría repetirse.',
+        426: 'El cliente debe cambiar a otro protocolo.',
+        428: 'El servidor de origen requiere que la solicitud sea condicional.',
+        429: 'El usuario ha enviado demasiadas solicitudes en un período de tiempo determinado.',
+        431: 'El servidor no procesará la solicitud porque sus campos de encabezado son demasiado grandes.',
+        451: 'El recurso no está disponible debido a exigencias legales.',
+        500: 'Se produjo un error inesperado en el servidor.',
+        501: 'El servidor no admite la funcionalidad necesaria para completar la solicitud.',
+        502: 'El servidor recibió una respuesta no válida de un servidor ascendente.',
+        503: 'El servidor no puede atender la solicitud en este momento por sobrecarga temporal o mantenimiento.',
+        504: 'El servidor no recibió una respuesta a tiempo de un servidor ascendente.',
+        505: 'El servidor no admite la versión del protocolo HTTP utilizada en la solicitud.',
+        506: 'El servidor tiene un error de configuración interno en la negociación de contenido.',
+        507: 'El servidor no puede almacenar la representación necesaria para completar la solicitud.',
+        508: 'El servidor detectó un bucle infinito al procesar la solicitud.',
+        509: 'El servidor ha excedido el límite de ancho de banda.',
+        510: 'Se requieren extensiones adicionales en la solicitud para que el servidor pueda completarla.',
+        511: 'El cliente debe autenticarse para obtener acceso a la red.',
+    },
+    resolutions: {
+        503: 'Vuelva a intentarlo en unos momentos o contacte con soporte.',
+    },
+};
@@ -0,0 +1,101 @@
+/**
+ * HTTP Response Kit - French Locale
+ * @module i18n/locales/fr
+ */
+
+import type { LocaleBundle } from '../../types';
+
+/**
+ * French titles and descriptions of the built-in error definitions
+ */
+export const fr: LocaleBundle = {
+    titles: {
+        400: 'Requête incorrecte',
+        401: 'Non autorisé',
+        402: 'Paiement requis',
+        403: 'Interdit',
+        404: 'Introuvable',
+        405: 'Méthode non autorisée',
+        406: 'Non acceptable',
+        407: 'Authentification proxy requise',
+        408: 'Délai de requête expiré',
+        409: 'Conflit',
+        410: 'Supprimé',
+        411: 'Longueur requise',
+        412: 'Échec de la précondition',
+        413: 'Charge utile trop volumineuse',
+        414: 'URI trop long',
+        415: 'Type de média non pris en charge',
+        416: 'Plage non satisfaisable',
+        417: "Échec de l'attente",
+        418: 'Je suis une théière',
+        421: 'Requête mal dirigée',
+        422: 'Entité non traitable',
+        423: 'Verrouillé',
+        424: 'Échec de dépendance',
+        425: 'Trop tôt',
+        426: 'Mise à niveau requise',
+        428: 'Précondition requise',
+        429: 'Trop de requêtes',
+        431: "Champs d'en-tête de requête trop volumineux",
+        451: 'Indisponible pour raisons légales',
+        500: 'Erreur interne du serveur',
+        501: 'Non implémenté',
+        502: 'Passerelle incorrecte',
+        503: 'Service indisponible',
+        504: 'Délai de passerelle expiré',
+        505: 'Version HTTP non prise en charge',
+        506: 'Variante négociant aussi',
+        507: 'Stockage insuffisant',
+        508: 'Boucle détectée',
+        509: 'Limite de bande passante dépassée',
+        510: 'Non étendu',
+        511: 'Authentification réseau requise',
+    },
+    details: {
+        400: "La requête ne peut pas être traitée en raison d'une syntaxe invalide ou de paramètres manquants.",
+        401: "Une authentification est requise et a échoué ou n'a pas encore été fournie.",
+        402: 'Un paiement est requis pour accéder à cette ressource.',
+        403: "Le serveur a compris la requête mais refuse de l'autoriser.",
+        404: 'La ressource demandée est introuvable.',
+        405: "La méthode indiquée dans la requête n'est pas autorisée pour cette ressource.",
+        406: "La ressource n'est pas disponible dans un format acceptable pour le client.",
+        407: 'Une authentification auprès du proxy est requise.',
+        408: "Le serveur a dépassé le délai d'attente de la requête.",
+        409: "La requête est en conflit avec l'état actuel de la ressource.",
+        410: "La ressource demandée n'est plus disponible et ne le sera plus.",
+        411: "La requête n'a pas indiqué la longueur de son contenu, qui est obligatoire.",
+        412: 'Une ou plusieurs conditions des en-têtes de la requête ont été évaluées à faux.',
+        413: 'La charge utile de la requête dépasse ce que le serveur accepte de traiter.',
+        414: "L'URI fourni est trop long pour être traité par le serveur.",
+        415: "Le format de média des données demandées n'est pas pris en charge par le serveur.",
+        416: "La plage indiquée dans l'en-tête de la requête ne peut pas être satisfaite.",
+        417: "Le serveur ne peut pas satisfaire les exigences du champ d'en-tête Expect.",
+        418: 'Le serveur refuse de préparer du café car il est, de façon permanente, une théière.',
+        421: 'La requête a été envoyée à un serveur incapable de produire une réponse.',
+        422: "La requête est bien formée mais n'a pas pu être traitée en raison d'erreurs sémantiques.",
+        423: 'La ressource à laquelle vous accédez est verrouillée.',
+        424: "La requête a échoué car elle dépendait d'une autre requête qui a échoué.",
+        425: "Le serveur refuse de traiter une requête susceptible d'être rejouée.",
+        426: 'Le client doit passer à un autre protocole.',
+        428: "Le serveur d'origine exige que la requête soit conditionnelle.",
+        429: "L'utilisateur a envoyé trop de requêtes en un temps donné.",
+        431: "Le serveur refuse de traiter la requête car ses champs d'en-tête sont trop volumineux.",
+        451: "La ressource est indisponible en raison d'exigences légales.",
+        500: "Une erreur inattendue s'est produite sur le serveur.",
+        501: 'Le serveur ne prend pas en charge la fonctionnalité requise pour traiter la requête.',
+        502: "Le serveur a reçu une réponse invalide d'un serveur en amont.",
+        503: "Le serveur ne peut pas traiter la requête pour le moment en raison d'une surcharge temporaire ou d'une maintenance.",
+        504: "Le serveur n'a pas reçu de réponse à temps d'un serveur en amont.",
+        505: 'Le serveur ne prend pas en charge la version du protocole HTTP utilisée dans la requête.',
+        506: 'Le serveur a rencontré une erreur de configuration interne lors de la négociation de contenu.',
+        507: 'Le serveur ne peut pas stocker la représentation nécessaire pour traiter la requête.',
+        508: 'Le serveur a détecté une boucle infinie lors du traitement de la requête.',
+        509: 'Le serveur a dépassé sa limite de bande passante.',
+        510: 'Des extensions supplémentaires de la requête sont nécessaires pour que le serveur puisse la traiter.',
+        511: "Le client doit s'authentifier pour accéder au réseau.",
+    },
+    resolutions: {
+        503: 'Réessayez dans quelques instants ou contactez le support.',
+    },
+};
@@ -0,0 +1,101 @@
+/**
+ * HTTP Response Kit - Italian Locale
+ * @module i18n/locales/it
+ */
+
+import type { LocaleBundle } from '../../types';
+
+/**
+ * Italian titles and descriptions of the built-in error definitions
+ */
+export const it: LocaleBundle = {
+    titles: {
+        400: 'Richiesta non valida',
+        401: 'Non autorizzato',
+        402: 'Pagamento richiesto',
+        403: 'Vietato',
+        404: 'Non trovato',
+        405: 'Metodo non consentito',
+        406: 'Non accettabile',
+        407: 'Autenticazione proxy richiesta',
+        408: 'Timeout della richiesta',
+        409: 'Conflitto',
+        410: 'Non più disponibile',
+        411: 'Lunghezza richiesta',
+        412: 'Precondizione non soddisfatta',
+        413: 'Payload troppo grande',
+        414: 'URI troppo lungo',
+        415: 'Tipo di supporto non supportato',
+        416: 'Intervallo non soddisfacibile',
+        417: 'Aspettativa non soddisfatta',
+        418: 'Sono una teiera',
+        421: 'Richiesta mal indirizzata',
+        422: 'Entità non elaborabile',
+        423: 'Bloccato',
+        424: 'Dipendenza non riuscita',
+        425: 'Troppo presto',
+        426: 'Aggiornamento richiesto',
+        428: 'Precondizione richiesta',
+        429: 'Troppe richieste',
+        431: 'Campi di intestazione della richiesta troppo grandi',
+        451: 'Non disponibile per motivi legali',
+        500: 'Errore interno del server',
+        501: 'Non implementato',
+        502: 'Gateway non valido',
+        503: 'Servizio non disponibile',
+        504: 'Timeout del gateway',
+        505: 'Versione HTTP non supportata',
+        506: 'Anche la variante negozia',
+        507: 'Spazio di archiviazione insufficiente',
+        508: 'Loop rilevato',
+        509: 'Limite di banda superato',
+        510: 'Non esteso',
+        511: 'Autenticazione di rete richiesta',
+    },
+    details: {
+        400: 'La richiesta non può essere elaborata a causa di una sintassi non valida o di parametri mancanti.',
+        401: "È richiesta l'autenticazione, che non è riuscita o non è stata ancora fornita.",
+        402: 'Per accedere a questa risorsa è richiesto un pagamento.',
+        403: 'Il server ha compreso la richiesta ma si rifiuta di autorizzarla.',
+        404: 'La risorsa richiesta non è stata trovata.',
+        405: 'Il metodo specificato nella richiesta non è consentito per questa risorsa.',
+        406: 'La risorsa non è disponibile in un formato accettabile per il client.',
+        407: "È richiesta l'autenticazione presso il proxy.",
+        408: 'Il server ha esaurito il tempo di attesa della richiesta.',
+        409: 'La richiesta è in conflitto con lo stato attuale della risorsa.',
+        410: 'La risorsa richiesta non è più disponibile e non lo sarà più.',
+        411: 'La richiesta non ha specificato la lunghezza del contenuto, che è obbligatoria.',
+        412: 'Una o più condizioni nei campi di intestazione della richiesta sono risultate false.',
+        413: 'Il payload della richiesta supera la dimensione che il server è disposto a elaborare.',
+        414: "L'URI fornito è troppo lungo per essere elaborato dal server.",
+        415: 'Il formato dei dati richiesti non è supportato dal server.',
+        416: "L'intervallo specificato nell'intestazione della richiesta non può essere soddisfatto.",
+        417: 'Il server non può soddisfare i requisiti del campo di intestazione Expect.',
+        418: 'Il server si rifiuta di preparare il caffè perché è, permanentemente, una teiera.',
+        421: 'La richiesta è stata indirizzata a un server che non è in grado di produrre una risposta.',
+        422: 'La richiesta era ben formata ma non è stato possibile eseguirla a causa di errori semantici.',
+        423: 'La risorsa a cui si sta accedendo è bloccata.',
+        424: "La richiesta non è riuscita perché dipendeva da un'altra richiesta non riuscita.",
+        425: 'Il server non è disposto a elaborare una richiesta che potrebbe essere ripetuta.',
+        426: 'Il client dovrebbe passare a un protocollo diverso.',
+        428: 'Il server di origine richiede che la richiesta sia condizionale.',
+        429: "L'utente ha inviato troppe richieste in un determinato intervallo di tempo.",
+        431: 'Il server non elabora la richiesta perché i suoi campi di intestazione sono troppo grandi.',
+        451: 'La risorsa non è disponibile a causa di obblighi legali.',
+        500: 'Si è verificato un errore imprevisto sul server.',
+        501: 'Il server non supporta la funzionalità necessaria per soddisfare la richiesta.',
+        502: 'Il server ha ricevuto una risposta non valida da un server a monte.',
+        503: 'Il server non è attualmente in grado di gestire la richiesta a causa di un sovraccarico temporaneo o di manutenzione.',
+        504: 'Il server non ha ricevuto una risposta tempestiva da un server a monte.',
+        505: 'Il server non supporta la versione del protocollo HTTP utilizzata nella richiesta.',
+        506: 'Il server ha un errore di configurazione interno durante la negoziazione dei contenuti.',
+        507: 'Il server non è in grado di memorizzare la rappresentazione necessaria per completare la richiesta.',
+        508: "Il server ha rilevato un ciclo infinito durante l'elaborazione della richiesta.",
+        509: 'Il server ha superato il limite di banda.',
+        510: 'Sono necessarie ulteriori estensioni della richiesta affinché il server possa soddisfarla.',
+        511: "Il client deve autenticarsi per ottenere l'accesso alla rete.",
+    },
+    resolutions: {
+        503: "Riprova tra poco o contatta l'assistenza.",
+    },
+};
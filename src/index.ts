@@ -12,14 +12,38 @@
 export type {
     HttpErrorInfo,
     HttpErrorOptions,
+    FieldError,
+    SerializedErrorCause,
+    StackFrame,
+    StackTraceConfig,
     HttpSuccessInfo,
+    ErrorDefinitionInput,
+    SuccessDefinitionInput,
+    StatusDefinitionPack,
     SuccessResponseConfig,
     ErrorResponseConfig,
     LibraryConfig,
     SuccessResponse,
     ErrorResponse,
+    EnvelopeParseResult,
     PaginationInput,
     PaginationMeta,
+    CursorPaginationInput,
+    CursorPaginationMeta,
+    PaginationLinks,
+    PaginationLinksConfig,
+    PaginationQueryValue,
+    ProblemDetails,
+    ProblemDetailsConfig,
+    ResponseHeaders,
+    FetchResponseLike,
+    RequestContext,
+    RequestContextConfig,
+    ErrorMaskingConfig,
+    RedactionConfig,
+    RedactionValuePattern,
+    LocaleBundle,
+    I18nConfig,
 } from './types';
 
 // ============================================================================
@@ -35,6 +59,8 @@ export {
     HttpInfoCode,
 } from './constants/status-codes';
 
+export { ContentType } from './constants/content-types';
+
 // ============================================================================
 // Definitions
 // ============================================================================
@@ -42,6 +68,7 @@ export {
 export {
     HttpErrorDefinitions,
     getErrorDefinition,
+    listErrorDefinitions,
 } from './constants/error-definitions';
 
 export {
@@ -51,12 +78,56 @@ export {
     getSuccessDefinition,
 } from './constants/success-definitions';
 
+export {
+    registerErrorDefinition,
+    registerSuccessDefinition,
+    registerStatusPack,
+    unregisterStatusDefinition,
+    resetStatusRegistry,
+    StatusPacks,
+} from './registry';
+
 // ============================================================================
 // Core Classes
 // ============================================================================
 
 export { HttpError } from './errors/HttpError';
+export { ValidationErrorBuilder, formatFieldPath } from './errors/ValidationErrorBuilder';
+export type { ValidationErrorCode, ValidationAdapterOptions } from './errors/ValidationErrorBuilder';
+export { serializeErrorCauses } from './errors/error-causes';
+export { formatMessage } from './errors/message-template';
+export { defineErrorCatalog } from './errors/error-catalog';
+export type {
+    ErrorCatalog,
+    ErrorCatalogEntry,
+    ErrorCatalogOptions,
+    CatalogErrorFactory,
+    CatalogErrorOptions,
+    MetadataSchema,
+    MetadataFieldType,
+    InferMetadata,
+} from './errors/error-catalog';
+export type { SerializeErrorCausesOptions } from './errors/error-causes';
+export { parseStackTrace } from './errors/stack-trace';
 export { HttpResponse } from './responses/HttpResponse';
+export { getResponseHeaders, parseRetryAfter } from './responses/response-headers';
+export { buildPaginationLinks, formatLinkHeader } from './responses/pagination-links';
+export { parsePagination, assertPageInRange } from './responses/pagination-params';
+export type { ParsePaginationOptions, ParsedPagination, PaginationQueryLike } from './responses/pagination-params';
+export {
+    redact,
+    redactString,
+    RedactionPatterns,
+    REDACTED,
+    DEFAULT_REDACTED_KEYS,
+    DEFAULT_REDACTED_VALUES,
+} from './redaction';
+export {
+    Translator,
+    BuiltInLocales,
+    parseAcceptLanguage,
+    localizeErrorDefinition,
+} from './i18n';
 
 // ============================================================================
 // Configuration
@@ -68,3 +139,6 @@ export {
     resetConfig,
     isDevelopment,
 } from './config';
+
+export { createResponseKit, defaultResponseKit } from './kit';
+export type { ResponseKit } from './kit';
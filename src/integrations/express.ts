@@ -0,0 +1,148 @@
+/**
+ * HTTP Response Kit - Express Integration
+ * @module integrations/express
+ *
+ * Importable from `http-response-kit/express`. Express is not a dependency:
+ * the handlers only rely on the request/response members they use.
+ */
+
+import type { ErrorResponseConfig, SuccessResponse, ErrorResponse } from '../types';
+import { HttpError } from '../errors/HttpError';
+import { getResponseHeaders } from '../responses/response-headers';
+import { fromStatusError } from './status-errors';
+import { defaultResponseKit } from '../kit';
+import type { ResponseKit } from '../kit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Minimal subset of an Express request used by the handlers
+ */
+export interface ExpressRequest {
+    method: string;
+    url: string;
+    originalUrl?: string;
+}
+
+/**
+ * Minimal subset of an Express response used by the handlers
+ */
+export interface ExpressResponse {
+    headersSent: boolean;
+    status(code: number): ExpressResponse;
+    setHeader(name: string, value: string | number | readonly string[]): unknown;
+    json(body: unknown): unknown;
+}
+
+/**
+ * Express `next` callback
+ */
+export type ExpressNextFunction = (error?: unknown) => void;
+
+/**
+ * Configuration for the Express error handler
+ */
+export interface ExpressErrorHandlerConfig extends ErrorResponseConfig {
+    /** Called with the converted error before the response is sent (e.g. for logging) */
+    onError?: (error: HttpError, req: ExpressRequest) => void;
+    /** Kit used to convert and format errors (default: global configuration) */
+    kit?: ResponseKit;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Send a formatted response: sets the status code and the response headers
+ * (e.g. `Location`, `Allow`, `Retry-After`), then the JSON body.
+ *
+ * @example
+ * ```ts
+ * sendResponse(res, HttpResponse.created(user, undefined, `/users/${user.id}`));
+ * ```
+ */
+export function sendResponse(res: ExpressResponse, response: SuccessResponse | ErrorResponse): void {
+    for (const [name, value] of Object.entries(getResponseHeaders(response))) {
+        res.setHeader(name, value);
+    }
+
+    res.status(response.status_code).json(response);
+}
+
+/**
+ * Convert an error raised inside Express to an HttpError.
+ * Errors carrying a `status`/`statusCode` between 400 and 599 (e.g. a malformed
+ * JSON body rejected by `express.json()`) keep it, and their `expose` flag decides
+ * whether the message may reach clients; anything else goes through `HttpError.fromError`.
+ */
+export function fromExpressError(error: unknown, fallbackCode = 500, ErrorClass: typeof HttpError = HttpError): HttpError {
+    return fromStatusError(error, fallbackCode, ErrorClass);
+}
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Create a 4-argument Express error middleware.
+ * Converts anything thrown or passed to `next` with `fromExpressError()`,
+ * sends the formatted `ErrorResponse` and sets its headers (including
+ * `Retry-After` from `retry_after`).
+ *
+ * @example
+ * ```ts
+ * app.use(notFoundHandler());
+ * app.use(errorHandler({ fallbackCode: 500 }));
+ * ```
+ */
+export function errorHandler(config: ExpressErrorHandlerConfig = {}) {
+    const { onError, kit = defaultResponseKit, ...responseConfig } = config;
+
+    return (err: unknown, req: ExpressRequest, res: ExpressResponse, next: ExpressNextFunction): void => {
+        // Let Express close the connection if streaming already started
+        if (res.headersSent) {
+            next(err);
+            return;
+        }
+
+        const httpError = fromExpressError(err, responseConfig.fallbackCode, kit.HttpError);
+        onError?.(httpError, req);
+
+        sendResponse(res, kit.HttpResponse.error(httpError, responseConfig));
+    };
+}
+
+/**
+ * Create a catch-all middleware that forwards a 404 `HttpError` for unmatched routes.
+ * Register it after all routes and before `errorHandler()`.
+ */
+export function notFoundHandler(message?: string, kit: ResponseKit = defaultResponseKit) {
+    return (req: ExpressRequest, _res: ExpressResponse, next: ExpressNextFunction): void => {
+        next(kit.HttpError.notFound(message ?? `Cannot ${req.method} ${req.originalUrl ?? req.url}`));
+    };
+}
+
+/**
+ * Wrap an async route handler so a rejected promise is forwarded to `next`.
+ *
+ * @example
+ * ```ts
+ * app.get('/users/:id', asyncHandler(async (req, res) => {
+ *   const user = await findUser(req.params.id);
+ *   if (!user) throw HttpError.notFound('User not found');
+ *   res.json(HttpResponse.ok(user));
+ * }));
+ * ```
+ */
+export function asyncHandler<Req, Res>(
+    handler: (req: Req, res: Res, next: ExpressNextFunction) => unknown
+) {
+    return (req: Req, res: Res, next: ExpressNextFunction): void => {
+        Promise.resolve()
+            .then(() => handler(req, res, next))
+            .catch(next);
+    };
+}
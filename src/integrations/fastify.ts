@@ -0,0 +1,255 @@
+/**
+ * HTTP Response Kit - Fastify Integration
+ * @module integrations/fastify
+ *
+ * Importable from `http-response-kit/fastify`. Fastify is not a dependency:
+ * the plugin only relies on the instance/reply members it uses.
+ */
+
+import type {
+    ErrorResponseConfig,
+    PaginationInput,
+    CursorPaginationInput,
+    SuccessResponse,
+    ErrorResponse,
+    FieldError,
+} from '../types';
+import { HttpError } from '../errors/HttpError';
+import { ValidationErrorBuilder } from '../errors/ValidationErrorBuilder';
+import { getResponseHeaders } from '../responses/response-headers';
+import { defaultResponseKit } from '../kit';
+import type { ResponseKit } from '../kit';
+import { HttpClientErrorCode } from '../constants/status-codes';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Minimal subset of a Fastify request used by the plugin
+ */
+export interface FastifyRequestLike {
+    method: string;
+    url: string;
+}
+
+/**
+ * Minimal subset of a Fastify reply used by the plugin
+ */
+export interface FastifyReplyLike {
+    code(statusCode: number): FastifyReplyLike;
+    header(name: string, value: string): FastifyReplyLike;
+    send(payload?: unknown): FastifyReplyLike;
+}
+
+/**
+ * Minimal subset of a Fastify instance used by the plugin
+ */
+export interface FastifyInstanceLike {
+    decorateReply(name: string, value: unknown): unknown;
+    setErrorHandler(
+        handler: (error: unknown, request: FastifyRequestLike, reply: FastifyReplyLike) => unknown
+    ): unknown;
+}
+
+/**
+ * Reply decorators added by the plugin. Merge into `FastifyReply` for typing:
+ *
+ * ```ts
+ * declare module 'fastify' {
+ *   interface FastifyReply extends HttpResponseReplyDecorators {}
+ * }
+ * ```
+ */
+export interface HttpResponseReplyDecorators {
+    ok<T = unknown>(data?: T, message?: string): FastifyReplyLike;
+    created<T = unknown>(data?: T, message?: string, location?: string): FastifyReplyLike;
+    paginated<T = unknown>(data: T[], pagination: PaginationInput | CursorPaginationInput, message?: string): FastifyReplyLike;
+}
+
+/**
+ * Configuration for the Fastify plugin
+ */
+export interface FastifyPluginConfig extends ErrorResponseConfig {
+    /** Register the `reply.ok()`, `reply.created()` and `reply.paginated()` decorators (default: true) */
+    decorateReply?: boolean;
+    /** Called with the converted error before the response is sent (e.g. for logging) */
+    onError?: (error: HttpError, request: FastifyRequestLike) => void;
+    /** Kit used to convert and format responses (default: global configuration) */
+    kit?: ResponseKit;
+}
+
+/**
+ * Shape of an AJV validation result attached to Fastify validation errors
+ */
+interface AjvErrorLike {
+    instancePath?: string;
+    keyword?: string;
+    message?: string;
+    params?: Record<string, unknown>;
+}
+
+/**
+ * Shape of errors raised by Fastify itself
+ */
+interface FastifyErrorLike {
+    code?: string;
+    statusCode?: number;
+    message?: string;
+    validation?: AjvErrorLike[];
+    validationContext?: string;
+}
+
+// ============================================================================
+// Error Mapping
+// ============================================================================
+
+/**
+ * Fastify error codes mapped to HTTP error codes
+ */
+const FASTIFY_ERROR_CODES: Record<string, number> = {
+    FST_ERR_VALIDATION: HttpClientErrorCode.BAD_REQUEST,
+    FST_ERR_CTP_EMPTY_JSON_BODY: HttpClientErrorCode.BAD_REQUEST,
+    FST_ERR_CTP_INVALID_JSON_BODY: HttpClientErrorCode.BAD_REQUEST,
+    FST_ERR_CTP_INVALID_CONTENT_LENGTH: HttpClientErrorCode.BAD_REQUEST,
+    FST_ERR_CTP_INVALID_MEDIA_TYPE: HttpClientErrorCode.UNSUPPORTED_MEDIA_TYPE,
+    FST_ERR_CTP_BODY_TOO_LARGE: HttpClientErrorCode.PAYLOAD_TOO_LARGE,
+};
+
+/**
+ * Convert AJV validation results to field errors. The JSON pointer in
+ * `instancePath` becomes the field path (extended by the missing or
+ * additional property), the keyword the code and `params` the rule parameters.
+ */
+function toFieldErrors(validation: ReadonlyArray<AjvErrorLike>): FieldError[] {
+    const builder = new ValidationErrorBuilder();
+
+    for (const { instancePath = '', keyword = 'invalid', message = 'is invalid', params = {} } of validation) {
+        const path: Array<string | number> = instancePath
+            .split('/')
+            .slice(1)
+            .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+            .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+
+        const property = params.missingProperty ?? params.additionalProperty;
+        if (typeof property === 'string') {
+            path.push(property);
+        }
+
+        builder.add(path, keyword, message, params);
+    }
+
+    return builder.errors;
+}
+
+/**
+ * Convert an error raised inside Fastify to an HttpError.
+ * Validation errors map to 400 with one field error per AJV result, and
+ * content-type errors to 415/413; other Fastify errors keep their `statusCode`;
+ * anything else goes through `HttpError.fromError`.
+ */
+export function fromFastifyError(error: unknown, fallbackCode = 500, ErrorClass: typeof HttpError = HttpError): HttpError {
+    if (error instanceof HttpError || !(error instanceof Error)) {
+        return ErrorClass.fromError(error, fallbackCode);
+    }
+
+    const { code, statusCode, validation, validationContext } = error as Error & FastifyErrorLike;
+
+    if (validation) {
+        return new ErrorClass(HttpClientErrorCode.BAD_REQUEST, {
+            message: error.message,
+            params: false,
+            errors: toFieldErrors(validation),
+            metadata: validationContext ? { validation_context: validationContext } : undefined,
+            cause: error,
+        });
+    }
+
+    const mappedCode = code && code in FASTIFY_ERROR_CODES
+        ? FASTIFY_ERROR_CODES[code]
+        : statusCode && statusCode >= 400 && statusCode <= 599 ? statusCode : undefined;
+
+    if (mappedCode !== undefined) {
+        return new ErrorClass(mappedCode, { message: error.message, params: false, cause: error });
+    }
+
+    return ErrorClass.fromError(error, fallbackCode);
+}
+
+/**
+ * Send a formatted response with its status code and headers
+ */
+function sendResponse(reply: FastifyReplyLike, response: SuccessResponse | ErrorResponse): FastifyReplyLike {
+    for (const [name, value] of Object.entries(getResponseHeaders(response))) {
+        reply.header(name, value);
+    }
+
+    return reply.code(response.status_code).send(response);
+}
+
+// ============================================================================
+// Plugin
+// ============================================================================
+
+/**
+ * Fastify plugin that registers an error handler formatting every error as an
+ * `ErrorResponse`, plus `reply.ok()`, `reply.created()` and `reply.paginated()`.
+ *
+ * @example
+ * ```ts
+ * import fastify from 'fastify';
+ * import { httpResponseKit } from 'http-response-kit/fastify';
+ *
+ * const app = fastify();
+ * app.register(httpResponseKit, { includeStack: false });
+ *
+ * app.post('/users', async (request, reply) => reply.created(await createUser(request.body)));
+ * ```
+ */
+export function httpResponseKit(
+    fastify: FastifyInstanceLike,
+    config: FastifyPluginConfig,
+    done: (error?: Error) => void
+): void {
+    const { decorateReply = true, onError, kit = defaultResponseKit, ...responseConfig } = config ?? {};
+
+    fastify.setErrorHandler((error, request, reply) => {
+        const httpError = fromFastifyError(error, responseConfig.fallbackCode, kit.HttpError);
+        onError?.(httpError, request);
+
+        return sendResponse(reply, kit.HttpResponse.error(httpError, responseConfig));
+    });
+
+    if (decorateReply) {
+        fastify.decorateReply('ok', function (this: FastifyReplyLike, data?: unknown, message?: string) {
+            return sendResponse(this, kit.HttpResponse.ok(data, message));
+        });
+
+        fastify.decorateReply('created', function (
+            this: FastifyReplyLike,
+            data?: unknown,
+            message?: string,
+            location?: string
+        ) {
+            return sendResponse(this, kit.HttpResponse.created(data, message, location));
+        });
+
+        fastify.decorateReply('paginated', function (
+            this: FastifyReplyLike,
+            data: unknown[],
+            pagination: PaginationInput | CursorPaginationInput,
+            message?: string
+        ) {
+            return sendResponse(this, kit.HttpResponse.paginated(data, pagination, message));
+        });
+    }
+
+    done();
+}
+
+// Same markers `fastify-plugin` sets: skip encapsulation so the error handler
+// and decorators apply to the whole application
+Object.assign(httpResponseKit, {
+    [Symbol.for('skip-override')]: true,
+    [Symbol.for('fastify.display-name')]: 'http-response-kit',
+});
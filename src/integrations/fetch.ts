@@ -0,0 +1,91 @@
+/**
+ * HTTP Response Kit - Fetch API Integration
+ * @module integrations/fetch
+ *
+ * Importable from `http-response-kit/fetch`. Builds WHATWG `Response` objects
+ * for runtimes with a global `Response` (Node 18+, Bun, Deno, edge runtimes).
+ */
+
+import type { ErrorResponseConfig, SuccessResponse, ErrorResponse, ProblemDetails } from '../types';
+import { HttpResponse } from '../responses/HttpResponse';
+import { getResponseHeaders } from '../responses/response-headers';
+import { ContentType } from '../constants/content-types';
+import { HttpSuccessCode, HttpRedirectCode } from '../constants/status-codes';
+import { fromStatusError } from './status-errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Headers accepted by the `Headers` constructor
+ */
+export type FetchHeadersInit = ConstructorParameters<typeof Headers>[0];
+
+/**
+ * Options for building a fetch `Response`
+ */
+export interface FetchResponseInit {
+    /** Additional response headers (override headers carried by the response) */
+    headers?: FetchHeadersInit;
+    /** Custom status text */
+    statusText?: string;
+}
+
+/**
+ * Status codes that must not carry a response body
+ */
+const NO_BODY_STATUS_CODES: readonly number[] = [
+    HttpSuccessCode.NO_CONTENT,
+    HttpSuccessCode.RESET_CONTENT,
+    HttpRedirectCode.NOT_MODIFIED,
+];
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+/**
+ * Build a fetch `Response` from a formatted envelope or Problem Details document.
+ * Sets the status, content type and the response's headers (including
+ * `Retry-After` from `retry_after`), and sends no body for 204/205/304.
+ *
+ * @example
+ * ```ts
+ * export async function GET() {
+ *   return toFetchResponse(HttpResponse.ok(await listUsers()));
+ * }
+ * ```
+ */
+export function toFetchResponse(
+    body: SuccessResponse | ErrorResponse | ProblemDetails,
+    init: FetchResponseInit = {}
+): Response {
+    const isEnvelope = 'success' in body;
+    const status = isEnvelope ? (body as SuccessResponse | ErrorResponse).status_code : (body as ProblemDetails).status;
+    const headers = new Headers(getResponseHeaders(body));
+
+    new Headers(init.headers).forEach((value, name) => headers.set(name, value));
+
+    if (NO_BODY_STATUS_CODES.includes(status)) {
+        return new Response(null, { status, statusText: init.statusText, headers });
+    }
+
+    if (!headers.has('Content-Type')) {
+        headers.set('Content-Type', isEnvelope ? ContentType.JSON : ContentType.PROBLEM_JSON);
+    }
+
+    return new Response(JSON.stringify(body), { status, statusText: init.statusText, headers });
+}
+
+/**
+ * Convert any error into a fetch `Response` carrying an `ErrorResponse`.
+ * Errors carrying a `status`/`statusCode` between 400 and 599 keep it.
+ */
+export function errorToFetchResponse(
+    error: unknown,
+    config: ErrorResponseConfig = {},
+    init: FetchResponseInit = {}
+): Response {
+    return toFetchResponse(HttpResponse.error(fromStatusError(error, config.fallbackCode), config), init);
+}
@@ -0,0 +1,77 @@
+/**
+ * HTTP Response Kit - Hono Integration
+ * @module integrations/hono
+ *
+ * Importable from `http-response-kit/hono`. Hono is not a dependency:
+ * the handler only relies on the context members it uses.
+ */
+
+import type { ErrorResponseConfig } from '../types';
+import type { HttpError } from '../errors/HttpError';
+import { defaultResponseKit } from '../kit';
+import type { ResponseKit } from '../kit';
+import { toFetchResponse } from './fetch';
+import { fromStatusError } from './status-errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Minimal subset of a Hono context used by the handler
+ */
+export interface HonoContextLike {
+    req: {
+        method: string;
+        url: string;
+    };
+}
+
+/**
+ * Configuration for the Hono error handler
+ */
+export interface HonoErrorHandlerConfig extends ErrorResponseConfig {
+    /** Called with the converted error before the response is built (e.g. for logging) */
+    onError?: (error: HttpError, c: HonoContextLike) => void;
+    /** Kit used to convert and format errors (default: global configuration) */
+    kit?: ResponseKit;
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+/**
+ * Create a Hono `onError` handler returning a formatted `ErrorResponse`.
+ * Errors carrying a `status` between 400 and 599, such as Hono's
+ * `HTTPException`, keep it and their `expose` flag.
+ *
+ * @example
+ * ```ts
+ * const app = new Hono();
+ * app.onError(honoErrorHandler());
+ * app.notFound(honoNotFoundHandler());
+ * ```
+ */
+export function honoErrorHandler(config: HonoErrorHandlerConfig = {}) {
+    const { onError, kit = defaultResponseKit, ...responseConfig } = config;
+
+    return (err: unknown, c: HonoContextLike): Response => {
+        const httpError = fromStatusError(err, responseConfig.fallbackCode, kit.HttpError);
+        onError?.(httpError, c);
+
+        return toFetchResponse(kit.HttpResponse.error(httpError, responseConfig));
+    };
+}
+
+/**
+ * Create a Hono `notFound` handler returning a formatted 404 `ErrorResponse`
+ */
+export function honoNotFoundHandler(message?: string, config: Omit<HonoErrorHandlerConfig, 'onError'> = {}) {
+    const { kit = defaultResponseKit, ...responseConfig } = config;
+
+    return (c: HonoContextLike): Response => {
+        const error = kit.HttpError.notFound(message ?? `Cannot ${c.req.method} ${new URL(c.req.url).pathname}`);
+        return toFetchResponse(kit.HttpResponse.error(error, responseConfig));
+    };
+}
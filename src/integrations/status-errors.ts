@@ -0,0 +1,39 @@
+/**
+ * HTTP Response Kit - Framework Status Errors
+ * @module integrations/status-errors
+ *
+ * Shared by the framework adapters: errors raised by framework middleware
+ * (`http-errors`, `body-parser`, Hono's `HTTPException`, ...) carry their own
+ * status code and `expose` flag.
+ */
+
+import { HttpError } from '../errors/HttpError';
+
+/**
+ * Shape of errors carrying an HTTP status
+ */
+interface StatusErrorLike {
+    status?: number;
+    statusCode?: number;
+    expose?: boolean;
+}
+
+/**
+ * Convert an error carrying a `status`/`statusCode` to an HttpError.
+ * Codes between 400 and 599 are kept and the `expose` flag decides whether the
+ * message may reach clients; anything else goes through `HttpError.fromError`.
+ */
+export function fromStatusError(error: unknown, fallbackCode = 500, ErrorClass: typeof HttpError = HttpError): HttpError {
+    if (error instanceof HttpError || !(error instanceof Error)) {
+        return ErrorClass.fromError(error, fallbackCode);
+    }
+
+    const { status, statusCode, expose } = error as Error & StatusErrorLike;
+    const code = status ?? statusCode;
+
+    if (typeof code === 'number' && code >= 400 && code <= 599) {
+        return new ErrorClass(code, { message: error.message, params: false, cause: error, expose: expose === true });
+    }
+
+    return ErrorClass.fromError(error, fallbackCode);
+}
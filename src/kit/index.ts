@@ -0,0 +1,80 @@
+/**
+ * HTTP Response Kit - Instance-Scoped Kits
+ * @module kit
+ */
+
+import type { LibraryConfig } from '../types';
+import { HttpError } from '../errors/HttpError';
+import { HttpResponse } from '../responses/HttpResponse';
+import { ConfigStore, defaultConfigStore } from '../config';
+
+/**
+ * `HttpError`/`HttpResponse` equivalents bound to one configuration
+ */
+export interface ResponseKit {
+    /** HttpError subclass using this kit's custom messages */
+    HttpError: typeof HttpError;
+    /** HttpResponse subclass using this kit's configuration */
+    HttpResponse: typeof HttpResponse;
+    /** Merge a partial configuration into this kit's settings */
+    configure(config: Partial<LibraryConfig>): void;
+    /** Get a snapshot of this kit's configuration */
+    getConfig(): Readonly<LibraryConfig>;
+    /** Reset this kit's configuration to the one it was created with */
+    resetConfig(): void;
+    /** Check if this kit runs in development mode */
+    isDevelopment(): boolean;
+}
+
+/**
+ * Build a kit around a configuration store
+ */
+function bindKit(store: ConfigStore, BaseError: typeof HttpError, BaseResponse: typeof HttpResponse): ResponseKit {
+    return {
+        HttpError: BaseError,
+        HttpResponse: BaseResponse,
+        configure: (config) => store.configure(config),
+        getConfig: () => store.get(),
+        resetConfig: () => store.reset(),
+        isDevelopment: () => store.isDevelopment(),
+    };
+}
+
+/**
+ * Default kit, backed by the global `configure()` settings
+ */
+export const defaultResponseKit: ResponseKit = bindKit(defaultConfigStore, HttpError, HttpResponse);
+
+/**
+ * Create an isolated kit whose `HttpError` and `HttpResponse` use their own
+ * configuration instead of the global one set with `configure()`.
+ * Kit errors are still `instanceof HttpError`.
+ *
+ * @param config - Initial configuration for this kit
+ *
+ * @example
+ * ```ts
+ * const adminKit = createResponseKit({
+ *   includeTimestamp: false,
+ *   customMessages: { 404: 'No such admin resource' },
+ * });
+ *
+ * throw adminKit.HttpError.notFound();
+ * res.json(adminKit.HttpResponse.ok(data));
+ * ```
+ */
+export function createResponseKit(config: Partial<LibraryConfig> = {}): ResponseKit {
+    const store = new ConfigStore(config);
+
+    class KitHttpError extends HttpError {
+        protected static configStore = store;
+    }
+
+    class KitHttpResponse extends HttpResponse {
+        protected static configStore = store;
+
+        protected static errorClass: typeof HttpError = KitHttpError;
+    }
+
+    return bindKit(store, KitHttpError, KitHttpResponse);
+}
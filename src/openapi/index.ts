@@ -0,0 +1,405 @@
+/**
+ * HTTP Response Kit - OpenAPI Components
+ * @module openapi
+ *
+ * Importable from `http-response-kit/openapi`. Generates OpenAPI 3.1
+ * components (JSON Schema 2020-12) for the response envelopes and one
+ * reusable response object per error definition, so API specs stay in sync
+ * with what `HttpResponse` actually sends.
+ */
+
+import type { HttpErrorInfo } from '../types';
+import { ContentType } from '../constants/content-types';
+import { HttpErrorDefinitions, getErrorDefinition, listErrorDefinitions } from '../constants/error-definitions';
+import { getSuccessDefinition } from '../constants/success-definitions';
+import { HttpSuccessCode, HttpRedirectCode } from '../constants/status-codes';
+import { getRegisteredErrorDefinition } from '../registry';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * JSON Schema (2020-12) object as used by OpenAPI 3.1
+ */
+export type OpenApiSchema = Record<string, unknown>;
+
+/**
+ * Reference to a component
+ */
+export interface OpenApiReference {
+    $ref: string;
+}
+
+/**
+ * Media type object of a response
+ */
+export interface OpenApiMediaType {
+    schema: OpenApiSchema | OpenApiReference;
+    example?: unknown;
+}
+
+/**
+ * Response object
+ */
+export interface OpenApiResponse {
+    description: string;
+    headers?: Record<string, { description?: string; schema: OpenApiSchema }>;
+    content?: Record<string, OpenApiMediaType>;
+}
+
+/**
+ * Generated `components` section
+ */
+export interface OpenApiComponents {
+    schemas: Record<string, OpenApiSchema>;
+    responses: Record<string, OpenApiResponse>;
+}
+
+/**
+ * Options for `generateOpenApiComponents()`
+ */
+export interface OpenApiComponentsOptions {
+    /** Error codes with a response component (default: all built-in and registered definitions) */
+    errorCodes?: number[];
+    /** Also describe error responses as `application/problem+json` Problem Details (default: false) */
+    problemDetails?: boolean;
+}
+
+/**
+ * Options for `buildOperationResponses()`
+ */
+export interface OperationResponsesOptions {
+    /** Schema of `data` in success responses (an array of it when paginated) */
+    data?: OpenApiSchema | OpenApiReference;
+    /** Success responses carry `metadata.pagination`, in page mode (`true`) or cursor mode (default: false) */
+    paginated?: boolean | 'cursor';
+    /** Paginated responses send a `Link` header (default: false) */
+    links?: boolean;
+}
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * Build a reference to a schema component
+ */
+function schemaRef(name: string): OpenApiReference {
+    return { $ref: `#/components/schemas/${name}` };
+}
+
+/**
+ * Build the envelope schemas
+ */
+function buildSchemas(): Record<string, OpenApiSchema> {
+    return {
+        FieldError: {
+            type: 'object',
+            description: 'Field-level validation error',
+            required: ['path', 'code', 'message'],
+            properties: {
+                path: { type: 'string', description: 'Dotted path of the invalid field', examples: ['user.emails[0]'] },
+                code: { type: 'string', description: 'Machine-readable error code', examples: ['invalid_format'] },
+                message: { type: 'string' },
+                params: { type: 'object', additionalProperties: true },
+            },
+        },
+        PaginationMeta: {
+            type: 'object',
+            description: 'Pagination metadata of paginated responses',
+            required: ['page', 'limit', 'total', 'total_pages', 'has_next', 'has_prev'],
+            properties: {
+                page: { type: 'integer', minimum: 1 },
+                limit: { type: 'integer', minimum: 1 },
+                total: { type: 'integer', minimum: 0 },
+                total_pages: { type: 'integer', minimum: 0 },
+                has_next: { type: 'boolean' },
+                has_prev: { type: 'boolean' },
+                links: schemaRef('PaginationLinks'),
+            },
+        },
+        CursorPaginationMeta: {
+            type: 'object',
+            description: 'Pagination metadata of cursor paginated responses',
+            required: ['next_cursor', 'prev_cursor', 'has_more'],
+            properties: {
+                next_cursor: { type: ['string', 'null'], description: 'Opaque cursor of the next page' },
+                prev_cursor: { type: ['string', 'null'], description: 'Opaque cursor of the previous page' },
+                has_more: { type: 'boolean' },
+                total: { type: 'integer', minimum: 0 },
+                limit: { type: 'integer', minimum: 1 },
+                links: schemaRef('PaginationLinks'),
+            },
+        },
+        PaginationLinks: {
+            type: 'object',
+            description: 'Navigation links, also sent as an RFC 8288 `Link` header',
+            required: ['self'],
+            properties: {
+                self: { type: 'string', format: 'uri-reference' },
+                first: { type: 'string', format: 'uri-reference' },
+                prev: { type: 'string', format: 'uri-reference' },
+                next: { type: 'string', format: 'uri-reference' },
+                last: { type: 'string', format: 'uri-reference' },
+            },
+        },
+        SuccessResponse: {
+            type: 'object',
+            description: 'Success response envelope',
+            required: ['success', 'status_code'],
+            properties: {
+                success: { const: true },
+                status_code: { type: 'integer', minimum: 100, maximum: 399 },
+                timestamp: { type: 'string', format: 'date-time' },
+                data: {},
+                message: { type: 'string' },
+                metadata: {
+                    type: 'object',
+                    properties: {
+                        pagination: { oneOf: [schemaRef('PaginationMeta'), schemaRef('CursorPaginationMeta')] },
+                    },
+                    additionalProperties: true,
+                },
+            },
+        },
+        ErrorResponse: {
+            type: 'object',
+            description: 'Error response envelope',
+            required: ['success', 'status_code', 'error'],
+            properties: {
+                success: { const: false },
+                status_code: { type: 'integer', minimum: 400, maximum: 599 },
+                timestamp: { type: 'string', format: 'date-time' },
+                retry_after: { type: 'number', minimum: 0, description: 'Seconds to wait before retrying' },
+                error: {
+                    type: 'object',
+                    required: ['type', 'title', 'message'],
+                    properties: {
+                        type: { type: 'string', description: 'Lowercase error type identifier' },
+                        title: { type: 'string' },
+                        message: { type: 'string' },
+                        code: { type: 'string', description: 'Application error code' },
+                        docs_url: { type: 'string', format: 'uri' },
+                        details: { type: 'string' },
+                        errors: { type: 'array', items: schemaRef('FieldError') },
+                        instance: { type: 'string' },
+                        reference: { type: 'string', description: 'Opaque id of a masked error for log lookup' },
+                    },
+                },
+                metadata: { type: 'object', additionalProperties: true },
+            },
+        },
+        ProblemDetails: {
+            type: 'object',
+            description: 'RFC 9457 Problem Details document',
+            required: ['type', 'title', 'status'],
+            properties: {
+                type: { type: 'string', format: 'uri-reference' },
+                title: { type: 'string' },
+                status: { type: 'integer', minimum: 400, maximum: 599 },
+                detail: { type: 'string' },
+                instance: { type: 'string', format: 'uri-reference' },
+            },
+            additionalProperties: true,
+        },
+    };
+}
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+/**
+ * Name of the response component of an error code: the PascalCase type
+ * (`not_found` → `NotFound`), or `Error499` for codes without a definition
+ */
+export function getResponseComponentName(code: number): string {
+    const definition = getErrorDefinition(code);
+    const isDefined = HttpErrorDefinitions[code] !== undefined || getRegisteredErrorDefinition(code)?.type !== undefined;
+
+    if (!isDefined) {
+        return `Error${code}`;
+    }
+
+    return definition.type
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map((word) => word[0].toUpperCase() + word.slice(1))
+        .join('');
+}
+
+/**
+ * Build the reusable response object of an error definition
+ */
+function buildErrorResponse(definition: HttpErrorInfo, problemDetails: boolean): OpenApiResponse {
+    const example: Record<string, unknown> = {
+        success: false,
+        status_code: definition.code,
+        error: {
+            type: definition.type,
+            title: definition.title,
+            message: definition.details,
+            details: definition.details,
+        },
+    };
+
+    if (definition.retryAfter) {
+        example.retry_after = definition.retryAfter;
+    }
+
+    const content: Record<string, OpenApiMediaType> = {
+        [ContentType.JSON]: {
+            schema: {
+                allOf: [
+                    schemaRef('ErrorResponse'),
+                    {
+                        properties: {
+                            status_code: { const: definition.code },
+                            error: { properties: { type: { const: definition.type } } },
+                        },
+                    },
+                ],
+            },
+            example,
+        },
+    };
+
+    if (problemDetails) {
+        content[ContentType.PROBLEM_JSON] = {
+            schema: schemaRef('ProblemDetails'),
+            example: {
+                type: definition.type,
+                title: definition.title,
+                status: definition.code,
+                detail: definition.details,
+                ...(definition.retryAfter ? { retry_after: definition.retryAfter } : undefined),
+            },
+        };
+    }
+
+    const response: OpenApiResponse = {
+        description: definition.resolution
+            ? `${definition.title}. ${definition.details} ${definition.resolution}`
+            : `${definition.title}. ${definition.details}`,
+        content,
+    };
+
+    if (definition.retryAfter) {
+        response.headers = {
+            'Retry-After': {
+                description: 'Seconds to wait before retrying',
+                schema: { type: 'integer', minimum: 0, examples: [definition.retryAfter] },
+            },
+        };
+    }
+
+    return response;
+}
+
+/**
+ * Generate OpenAPI 3.1 components: the envelope schemas (`SuccessResponse`,
+ * `ErrorResponse`, `FieldError`, `PaginationMeta`, `CursorPaginationMeta`,
+ * `PaginationLinks`, `ProblemDetails`) and one
+ * response object per error code, named after its type (see
+ * `getResponseComponentName()`), with an example built from the definition.
+ *
+ * @example
+ * ```ts
+ * const components = generateOpenApiComponents({ problemDetails: true });
+ * const spec = { openapi: '3.1.0', info, paths, components };
+ * components.responses.NotFound;
+ * // { description: 'Not Found. The requested resource could not be found.', content: { 'application/json': ... } }
+ * ```
+ */
+export function generateOpenApiComponents(options: OpenApiComponentsOptions = {}): OpenApiComponents {
+    const { problemDetails = false } = options;
+    const definitions = options.errorCodes?.map(getErrorDefinition) ?? listErrorDefinitions();
+    const responses: Record<string, OpenApiResponse> = {};
+
+    for (const definition of definitions) {
+        responses[getResponseComponentName(definition.code)] = buildErrorResponse(definition, problemDetails);
+    }
+
+    return { schemas: buildSchemas(), responses };
+}
+
+/**
+ * Build the success response object of a status code
+ */
+function buildSuccessResponse(code: number, options: OperationResponsesOptions): OpenApiResponse {
+    const { description } = getSuccessDefinition(code);
+
+    if (code === HttpSuccessCode.NO_CONTENT || code === HttpSuccessCode.RESET_CONTENT || code === HttpRedirectCode.NOT_MODIFIED) {
+        return { description };
+    }
+
+    const { data, paginated = false, links = false } = options;
+    const properties: Record<string, unknown> = { status_code: { const: code } };
+    const required: string[] = [];
+
+    if (data) {
+        properties.data = paginated ? { type: 'array', items: data } : data;
+        required.push('data');
+    }
+
+    if (paginated) {
+        const pagination = schemaRef(paginated === 'cursor' ? 'CursorPaginationMeta' : 'PaginationMeta');
+        properties.metadata = { required: ['pagination'], properties: { pagination } };
+        required.push('metadata');
+    }
+
+    const response: OpenApiResponse = {
+        description,
+        content: {
+            [ContentType.JSON]: {
+                schema: {
+                    allOf: [
+                        schemaRef('SuccessResponse'),
+                        required.length > 0 ? { properties, required } : { properties },
+                    ],
+                },
+            },
+        },
+    };
+
+    if (paginated && links) {
+        response.headers = {
+            Link: {
+                description: 'RFC 8288 navigation links (`self`, `first`, `prev`, `next`, `last`)',
+                schema: { type: 'string' },
+            },
+        };
+    }
+
+    return response;
+}
+
+/**
+ * Build the `responses` map of an operation from a list of status codes.
+ * Success codes get an inline envelope schema with the given `data` schema;
+ * error codes reference the components from `generateOpenApiComponents()`
+ * (make sure their codes are included there).
+ *
+ * @example
+ * ```ts
+ * paths['/users/{id}'].get.responses = buildOperationResponses([200, 404, 429], {
+ *   data: { $ref: '#/components/schemas/User' },
+ * });
+ * // { '200': { description, content }, '404': { $ref: '#/components/responses/NotFound' }, '429': { ... } }
+ * ```
+ */
+export function buildOperationResponses(
+    codes: number[],
+    options: OperationResponsesOptions = {}
+): Record<string, OpenApiResponse | OpenApiReference> {
+    const responses: Record<string, OpenApiResponse | OpenApiReference> = {};
+
+    for (const code of [...codes].sort((a, b) => a - b)) {
+        responses[String(code)] = code >= 400
+            ? { $ref: `#/components/responses/${getResponseComponentName(code)}` }
+            : buildSuccessResponse(code, options);
+    }
+
+    return responses;
+}
@@ -0,0 +1,176 @@
+/**
+ * HTTP Response Kit - Sensitive Data Redaction
+ * @module redaction
+ */
+
+import type { RedactionConfig, RedactionValuePattern } from '../types';
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+/**
+ * Default replacement marker
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Check a digit string with the Luhn algorithm (payment card numbers)
+ */
+function passesLuhn(candidate: string): boolean {
+    const digits = candidate.replace(/\D/g, '');
+    let sum = 0;
+
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+
+    return digits.length >= 13 && sum % 10 === 0;
+}
+
+/**
+ * Built-in value patterns
+ */
+export const RedactionPatterns = {
+    /** JSON Web Tokens */
+    JWT: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g,
+    /** `Bearer <token>` credentials */
+    BEARER_TOKEN: /\bBearer\s+[\w\-.~+/]+=*/gi,
+    /** Payment card numbers (13–19 digits, Luhn-validated) */
+    CARD_NUMBER: { pattern: /\b(?:\d[ -]?){12,18}\d\b/g, validate: passesLuhn } as RedactionValuePattern,
+    /** Email addresses (not enabled by default) */
+    EMAIL: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+} as const;
+
+/**
+ * Default sensitive key names (compared case-insensitively, ignoring `-` and `_`)
+ */
+export const DEFAULT_REDACTED_KEYS: readonly string[] = [
+    'password',
+    'passwd',
+    'secret',
+    'token',
+    'accesstoken',
+    'refreshtoken',
+    'idtoken',
+    'apikey',
+    'xapikey',
+    'authorization',
+    'cookie',
+    'setcookie',
+    'cardnumber',
+    'cvv',
+    'ssn',
+];
+
+/**
+ * Default value patterns
+ */
+export const DEFAULT_REDACTED_VALUES: readonly RedactionValuePattern[] = [
+    RedactionPatterns.JWT,
+    RedactionPatterns.BEARER_TOKEN,
+    RedactionPatterns.CARD_NUMBER,
+];
+
+/**
+ * Default maximum nesting depth inspected before values are replaced
+ */
+const DEFAULT_MAX_DEPTH = 10;
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/**
+ * Normalize a key name for comparison
+ */
+function normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[-_\s]/g, '');
+}
+
+/**
+ * Check if a key is sensitive
+ */
+function isSensitiveKey(key: string, keys: ReadonlyArray<string | RegExp>): boolean {
+    const normalized = normalizeKey(key);
+    return keys.some((pattern) => {
+        if (typeof pattern === 'string') {
+            return normalizeKey(pattern) === normalized;
+        }
+
+        // `g`/`y` patterns keep `lastIndex` between calls; always test from the start
+        pattern.lastIndex = 0;
+        return pattern.test(key);
+    });
+}
+
+/**
+ * Replace sensitive substrings (tokens, card numbers, ...) in a string
+ */
+export function redactString(value: string, config: RedactionConfig = {}): string {
+    const { values = DEFAULT_REDACTED_VALUES, replacement = REDACTED } = config;
+
+    return values.reduce<string>((result, entry) => {
+        const { pattern, validate } = entry instanceof RegExp ? { pattern: entry, validate: undefined } : entry;
+        const globalPattern = pattern.flags.includes('g') ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+
+        return result.replace(globalPattern, (match) => (!validate || validate(match) ? replacement : match));
+    }, value);
+}
+
+/**
+ * Recursively redact a value: properties with sensitive key names are
+ * replaced, strings are scanned for sensitive values, and anything nested
+ * deeper than `maxDepth` is replaced as well. Returns a copy; the input is
+ * not modified.
+ *
+ * @example
+ * ```ts
+ * redact({ user: 'ada', password: 'hunter2', auth: 'Bearer abc.def' });
+ * // { user: 'ada', password: '[REDACTED]', auth: '[REDACTED]' }
+ * ```
+ */
+export function redact<T>(value: T, config: RedactionConfig = {}): T {
+    const { keys = DEFAULT_REDACTED_KEYS, maxDepth = DEFAULT_MAX_DEPTH, replacement = REDACTED } = config;
+    const seen = new WeakSet<object>();
+
+    const visit = (current: unknown, depth: number): unknown => {
+        if (typeof current === 'string') {
+            return redactString(current, config);
+        }
+
+        if (typeof current !== 'object' || current === null || current instanceof Date) {
+            return current;
+        }
+
+        if (depth >= maxDepth) {
+            return replacement;
+        }
+
+        if (seen.has(current)) {
+            return '[Circular]';
+        }
+        seen.add(current);
+
+        const result = Array.isArray(current)
+            ? current.map((item) => visit(item, depth + 1))
+            : Object.fromEntries(
+                Object.entries(current).map(([key, item]) => [
+                    key,
+                    isSensitiveKey(key, keys) ? replacement : visit(item, depth + 1),
+                ])
+            );
+
+        seen.delete(current);
+        return result;
+    };
+
+    return visit(value, 0) as T;
+}
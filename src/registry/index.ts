@@ -0,0 +1,126 @@
+/**
+ * HTTP Response Kit - Status Code Registry
+ * @module registry
+ *
+ * Definitions registered here take precedence over the built-in tables in
+ * `getErrorDefinition()`/`getSuccessDefinition()`, and thereby in `HttpError`
+ * and every formatter.
+ */
+
+import type { ErrorDefinitionInput, SuccessDefinitionInput, StatusDefinitionPack } from '../types';
+
+/**
+ * Registered error definitions by status code
+ */
+const errorRegistry = new Map<number, ErrorDefinitionInput>();
+
+/**
+ * Registered success definitions by status code
+ */
+const successRegistry = new Map<number, SuccessDefinitionInput>();
+
+/**
+ * Ensure a status code is an integer within a range
+ */
+function assertStatusCode(code: number, min: number, max: number, kind: string): void {
+    if (!Number.isInteger(code) || code < min || code > max) {
+        throw new RangeError(`Invalid HTTP ${kind} code: ${code}. Must be between ${min} and ${max}.`);
+    }
+}
+
+/**
+ * Register or override the definition of an error status code (400–599).
+ * Fields are merged over the built-in definition (or the generic fallback
+ * for unmapped codes) and over earlier registrations.
+ *
+ * @example
+ * ```ts
+ * registerErrorDefinition(499, {
+ *   type: 'client_closed_request',
+ *   title: 'Client Closed Request',
+ *   details: 'The client closed the connection before the server answered.',
+ * });
+ * new HttpError(499).type; // 'client_closed_request'
+ * ```
+ */
+export function registerErrorDefinition(code: number, definition: ErrorDefinitionInput): void {
+    assertStatusCode(code, 400, 599, 'error');
+    errorRegistry.set(code, { ...errorRegistry.get(code), ...definition });
+}
+
+/**
+ * Register or override the definition of a success, informational or
+ * redirect status code (100–399)
+ */
+export function registerSuccessDefinition(code: number, definition: SuccessDefinitionInput): void {
+    assertStatusCode(code, 100, 399, 'success');
+    successRegistry.set(code, { ...successRegistry.get(code), ...definition });
+}
+
+/**
+ * Register every definition of a pack
+ *
+ * @example
+ * ```ts
+ * registerStatusPack(StatusPacks.nginx);
+ * registerStatusPack(StatusPacks.cloudflare);
+ * ```
+ */
+export function registerStatusPack(pack: StatusDefinitionPack): void {
+    for (const [code, definition] of Object.entries(pack.errors ?? {})) {
+        registerErrorDefinition(Number(code), definition);
+    }
+
+    for (const [code, definition] of Object.entries(pack.success ?? {})) {
+        registerSuccessDefinition(Number(code), definition);
+    }
+}
+
+/**
+ * Remove the registered definition of a status code (built-in definitions apply again)
+ *
+ * @returns Whether a definition was registered
+ */
+export function unregisterStatusDefinition(code: number): boolean {
+    const removedError = errorRegistry.delete(code);
+    const removedSuccess = successRegistry.delete(code);
+    return removedError || removedSuccess;
+}
+
+/**
+ * Remove all registered definitions
+ */
+export function resetStatusRegistry(): void {
+    errorRegistry.clear();
+    successRegistry.clear();
+}
+
+/**
+ * Get the registered error definition for a status code (if any)
+ */
+export function getRegisteredErrorDefinition(code: number): ErrorDefinitionInput | undefined {
+    return errorRegistry.get(code);
+}
+
+/**
+ * Get the registered success definition for a status code (if any)
+ */
+export function getRegisteredSuccessDefinition(code: number): SuccessDefinitionInput | undefined {
+    return successRegistry.get(code);
+}
+
+/**
+ * Get the status codes with a registered error definition
+ */
+export function getRegisteredErrorCodes(): number[] {
+    return [...errorRegistry.keys()];
+}
+
+/**
+ * Get the status codes with a registered success definition
+ */
+export function getRegisteredSuccessCodes(): number[] {
+    return [...successRegistry.keys()];
+}
+
+export { StatusPacks } from './packs';
@@ -0,0 +1,158 @@
+/**
+ * HTTP Response Kit - Vendor Status Code Packs
+ * @module registry/packs
+ */
+
+import type { StatusDefinitionPack } from '../types';
+
+/**
+ * nginx-specific client error codes
+ */
+const nginx: StatusDefinitionPack = {
+    name: 'nginx',
+    errors: {
+        444: {
+            type: 'no_response',
+            title: 'No Response',
+            details: 'The server closed the connection without sending a response.',
+        },
+        494: {
+            type: 'request_header_too_large',
+            title: 'Request Header Too Large',
+            details: 'The request header or one of its fields is too large.',
+            resolution: 'Reduce the size of the request headers, e.g. by clearing cookies.',
+        },
+        495: {
+            type: 'ssl_certificate_error',
+            title: 'SSL Certificate Error',
+            details: 'The client certificate could not be verified.',
+        },
+        496: {
+            type: 'ssl_certificate_required',
+            title: 'SSL Certificate Required',
+            details: 'A client certificate is required but was not provided.',
+        },
+        497: {
+            type: 'http_request_sent_to_https_port',
+            title: 'HTTP Request Sent to HTTPS Port',
+            details: 'A plain HTTP request was sent to a port expecting HTTPS.',
+            resolution: 'Use the https:// scheme.',
+        },
+        499: {
+            type: 'client_closed_request',
+            title: 'Client Closed Request',
+            details: 'The client closed the connection before the server finished responding.',
+        },
+    },
+};
+
+/**
+ * Cloudflare origin error codes
+ */
+const cloudflare: StatusDefinitionPack = {
+    name: 'cloudflare',
+    errors: {
+        520: {
+            type: 'web_server_returned_unknown_error',
+            title: 'Web Server Returned an Unknown Error',
+            details: 'The origin server returned an empty, unknown or unexpected response.',
+        },
+        521: {
+            type: 'web_server_is_down',
+            title: 'Web Server Is Down',
+            details: 'The origin server refused the connection.',
+            retryAfter: 30,
+        },
+        522: {
+            type: 'connection_timed_out',
+            title: 'Connection Timed Out',
+            details: 'The connection to the origin server timed out.',
+            retryAfter: 30,
+        },
+        523: {
+            type: 'origin_is_unreachable',
+            title: 'Origin Is Unreachable',
+            details: 'The origin server could not be reached.',
+        },
+        524: {
+            type: 'timeout_occurred',
+            title: 'A Timeout Occurred',
+            details: 'The origin server did not return an HTTP response in time.',
+            retryAfter: 30,
+        },
+        525: {
+            type: 'ssl_handshake_failed',
+            title: 'SSL Handshake Failed',
+            details: 'The SSL/TLS handshake with the origin server failed.',
+        },
+        526: {
+            type: 'invalid_ssl_certificate',
+            title: 'Invalid SSL Certificate',
+            details: 'The SSL certificate of the origin server could not be validated.',
+        },
+        527: {
+            type: 'railgun_error',
+            title: 'Railgun Error',
+            details: 'The connection between Cloudflare and the origin\'s Railgun server was interrupted.',
+        },
+        530: {
+            type: 'origin_dns_error',
+            title: 'Origin DNS Error',
+            details: 'The origin server hostname could not be resolved.',
+        },
+    },
+};
+
+/**
+ * Microsoft IIS client error codes
+ */
+const iis: StatusDefinitionPack = {
+    name: 'iis',
+    errors: {
+        440: {
+            type: 'login_time_out',
+            title: 'Login Time-out',
+            details: 'The client session has expired and must log in again.',
+        },
+        449: {
+            type: 'retry_with',
+            title: 'Retry With',
+            details: 'The request should be retried after performing the appropriate action.',
+        },
+    },
+};
+
+/**
+ * AWS Elastic Load Balancing error codes
+ */
+const awsElb: StatusDefinitionPack = {
+    name: 'aws-elb',
+    errors: {
+        460: {
+            type: 'client_closed_connection',
+            title: 'Client Closed Connection',
+            details: 'The client closed the connection before the load balancer idle timeout elapsed.',
+        },
+        463: {
+            type: 'too_many_forwarded_addresses',
+            title: 'Too Many Forwarded Addresses',
+            details: 'The X-Forwarded-For request header contains more than 30 IP addresses.',
+        },
+        464: {
+            type: 'incompatible_protocol_versions',
+            title: 'Incompatible Protocol Versions',
+            details: 'The request protocol is incompatible with the target group protocol version.',
+        },
+        561: {
+            type: 'identity_provider_unauthorized',
+            title: 'Unauthorized',
+            details: 'The identity provider returned an error code when authenticating the user.',
+        },
+    },
+};
+
+/**
+ * Opt-in definitions for vendor-specific status codes.
+ * Register them with `registerStatusPack()`.
+ */
+export const StatusPacks = Object.freeze({ nginx, cloudflare, iis, awsElb });
@@ -3,11 +3,44 @@
  * @module responses/HttpResponse
  */
 
-import type { SuccessResponseConfig, ErrorResponseConfig, SuccessResponse, ErrorResponse, PaginationInput } from '../types';
+import type {
+    SuccessResponseConfig,
+    ErrorResponseConfig,
+    SuccessResponse,
+    ErrorResponse,
+    PaginationInput,
+    PaginationMeta,
+    CursorPaginationInput,
+    CursorPaginationMeta,
+    ProblemDetails,
+    ProblemDetailsConfig,
+    RequestContext,
+    SerializedErrorCause,
+    StackFrame,
+    EnvelopeParseResult,
+    ResponseHeaders,
+} from '../types';
 import { HttpError } from '../errors/HttpError';
 import { getSuccessDefinition } from '../constants/success-definitions';
 import { HttpSuccessCode, HttpRedirectCode } from '../constants/status-codes';
-import { isDevelopment, shouldIncludeTimestamp, getResponseTransformer } from '../config';
+import { attachHeaders } from './response-headers';
+import { buildPaginationLinks, formatLinkHeader } from './pagination-links';
+import { validateEnvelope } from './envelope-validation';
+import { resolveRequestContext, getRequestContextFields } from '../context/resolver';
+import { redact } from '../redaction';
+import { serializeErrorCauses } from '../errors/error-causes';
+import { formatStackTrace } from '../errors/stack-trace';
+import { formatMessage } from '../errors/message-template';
+import { Translator } from '../i18n';
+import { ConfigStore, defaultConfigStore } from '../config';
+
+/**
+ * Resolve the class a static method was called on, falling back to
+ * `HttpResponse` for detached calls such as `const { ok } = HttpResponse`
+ */
+function responseClassOf(self: unknown): typeof HttpResponse {
+    return typeof self === 'function' ? self as typeof HttpResponse : HttpResponse;
+}
 
 /**
  * Utility class for formatting HTTP responses.
@@ -40,6 +73,12 @@ import { isDevelopment, shouldIncludeTimestamp, getResponseTransformer } from '.
  * ```
  */
 export class HttpResponse {
+    /** Configuration store used for formatting (overridden by `createResponseKit()`) */
+    protected static configStore: ConfigStore = defaultConfigStore;
+
+    /** HttpError class used to convert unknown errors (overridden by `createResponseKit()`) */
+    protected static errorClass: typeof HttpError = HttpError;
+
     /**
      * Format a success response
      * 
@@ -47,11 +86,13 @@ export class HttpResponse {
      * @returns Formatted success response object
      */
     static success<T = unknown>(config: SuccessResponseConfig<T> = {}): SuccessResponse<T> {
+        const ResponseClass = responseClassOf(this);
         const {
             data,
             message,
             statusCode = HttpSuccessCode.OK,
             metadata = {},
+            headers,
         } = config;
 
         const successInfo = getSuccessDefinition(statusCode);
@@ -61,7 +102,7 @@ export class HttpResponse {
             status_code: successInfo.code,
         };
 
-        if (shouldIncludeTimestamp()) {
+        if (ResponseClass.configStore.shouldIncludeTimestamp()) {
             response.timestamp = new Date().toISOString();
         }
 
@@ -81,16 +122,19 @@ export class HttpResponse {
         }
 
         if (Object.keys(metadata).length > 0) {
-            response.metadata = metadata;
+            response.metadata = ResponseClass.redact(metadata);
         }
 
+        // Merge request id / trace id from the active request context
+        ResponseClass.applyRequestContext(response);
+
         // Apply custom transformer if configured
-        const transformer = getResponseTransformer();
+        const transformer = ResponseClass.configStore.getResponseTransformer();
         if (transformer) {
-            return transformer(response) as SuccessResponse<T>;
+            return attachHeaders(transformer(response) as SuccessResponse<T>, headers);
         }
 
-        return response;
+        return attachHeaders(response, headers);
     }
 
     /**
@@ -101,30 +145,59 @@ export class HttpResponse {
      * @returns Formatted error response object
      */
     static error(error: HttpError, config: ErrorResponseConfig = {}): ErrorResponse {
+        const ResponseClass = responseClassOf(this);
         const { includeStack, additionalFields } = config;
 
+        const locale = config.locale ?? resolveRequestContext()?.locale;
+        const translator = ResponseClass.getTranslator(locale);
+        const maskedMessage = ResponseClass.getMaskedMessage(error, translator);
+
         const response: ErrorResponse = {
             success: false,
             status_code: error.code,
             error: {
                 type: error.type,
-                title: error.title,
-                message: error.message,
+                title: translator.lookup('titles', error.code) ?? error.title,
+                message: maskedMessage ?? ResponseClass.redact(ResponseClass.localizeMessage(error, translator)),
             },
         };
 
-        if (shouldIncludeTimestamp()) {
+        if (ResponseClass.configStore.shouldIncludeTimestamp()) {
             response.timestamp = new Date().toISOString();
         }
 
+        // Include the application error code and docs URL (error catalogs)
+        if (error.appCode) {
+            response.error.code = error.appCode;
+        }
+
+        if (error.docsUrl) {
+            response.error.docs_url = error.docsUrl;
+        }
+
         // Include original error details if available
         if (error.details) {
-            response.error.details = error.details;
+            response.error.details = translator.lookup('details', error.code) ?? error.details;
+        }
+
+        // Include field-level validation errors if present
+        if (error.errors && error.errors.length > 0) {
+            response.error.errors = error.errors;
+        }
+
+        // Reference the masked error so it can be found in server logs
+        if (maskedMessage !== undefined && ResponseClass.configStore.getActiveErrorMasking()?.includeReference !== false) {
+            response.error.reference = error.reference;
         }
 
-        // Include stack trace in development mode (separate field)
-        if (includeStack ?? isDevelopment()) {
-            response.error.stack = error.stack;
+        // Include stack trace and cause chain in development mode (separate fields)
+        if (includeStack ?? ResponseClass.configStore.isDevelopment()) {
+            Object.assign(response.error, ResponseClass.formatStack(error.stack));
+
+            const causes = ResponseClass.serializeCauses(error);
+            if (causes.length > 0) {
+                response.error.causes = causes;
+            }
         }
 
         // Include retry-after if present
@@ -134,7 +207,13 @@ export class HttpResponse {
 
         // Include metadata if present
         if (error.metadata) {
-            response.metadata = error.metadata;
+            response.metadata = ResponseClass.redact(error.metadata);
+        }
+
+        // Merge request id / trace id and instance from the active request context
+        const context = ResponseClass.applyRequestContext(response);
+        if (context?.instance && ResponseClass.configStore.getRequestContextConfig()?.includeInstance !== false) {
+            response.error.instance = context.instance;
         }
 
         // Add any additional fields (protecting core structure)
@@ -143,13 +222,16 @@ export class HttpResponse {
             Object.assign(response, safeFields);
         }
 
+        // Announce the negotiated locale
+        const headers = locale ? { ...error.headers, 'Content-Language': translator.locale } : error.headers;
+
         // Apply custom transformer if configured
-        const transformer = getResponseTransformer();
+        const transformer = ResponseClass.configStore.getResponseTransformer();
         if (transformer) {
-            return transformer(response) as ErrorResponse;
+            return attachHeaders(transformer(response) as ErrorResponse, headers);
         }
 
-        return response;
+        return attachHeaders(response, headers);
     }
 
     /**
@@ -160,8 +242,216 @@ export class HttpResponse {
      * @returns Formatted error response object
      */
     static fromError(error: unknown, config: ErrorResponseConfig = {}): ErrorResponse {
-        const httpError = HttpError.fromError(error, config.fallbackCode);
-        return HttpResponse.error(httpError, config);
+        const ResponseClass = responseClassOf(this);
+        const httpError = ResponseClass.errorClass.fromError(error, config.fallbackCode);
+        return ResponseClass.error(httpError, config);
+    }
+
+    /**
+     * Format an error as an RFC 9457 Problem Details document
+     * (to be served as `application/problem+json`).
+     *
+     * `message` maps to `detail`; `details`, `retryAfter`, `errors`, `appCode`/`docsUrl`
+     * (as `code`/`docs_url`) and `metadata` are emitted as extension members. Without a base URI, `type` is the bare
+     * error type as a relative URI reference.
+     *
+     * @param error - HttpError instance
+     * @param config - Optional Problem Details configuration
+     * @returns Problem Details document
+     *
+     * @example
+     * ```ts
+     * configure({ problemTypeBaseUri: 'https://api.example.com/problems' });
+     * HttpResponse.problem(HttpError.notFound('User not found'), { instance: '/users/42' });
+     * // { type: 'https://api.example.com/problems/not_found', title: 'Not Found',
+     * //   status: 404, detail: 'User not found', instance: '/users/42', ... }
+     * ```
+     */
+    static problem(error: HttpError, config: ProblemDetailsConfig = {}): ProblemDetails {
+        const ResponseClass = responseClassOf(this);
+        const { typeBaseUri = ResponseClass.configStore.getProblemTypeBaseUri(), extensions, includeStack } = config;
+        const contextConfig = ResponseClass.configStore.getRequestContextConfig();
+        const context = contextConfig ? resolveRequestContext() : undefined;
+        const instance = config.instance ?? (contextConfig?.includeInstance !== false ? context?.instance : undefined);
+
+        const locale = config.locale ?? resolveRequestContext()?.locale;
+        const translator = ResponseClass.getTranslator(locale);
+        const maskedMessage = ResponseClass.getMaskedMessage(error, translator);
+        const details = error.details ? translator.lookup('details', error.code) ?? error.details : error.details;
+
+        const problem: ProblemDetails = {
+            type: typeBaseUri ? `${typeBaseUri.replace(/\/+$/, '')}/${error.type}` : error.type,
+            title: translator.lookup('titles', error.code) ?? error.title,
+            status: error.code,
+            detail: maskedMessage ?? ResponseClass.redact(ResponseClass.localizeMessage(error, translator)),
+        };
+
+        if (instance) {
+            problem.instance = instance;
+        }
+
+        // Extension members (never overriding the standard members)
+        const members: Record<string, unknown> = {
+            ...(context && contextConfig ? getRequestContextFields(context, contextConfig) : undefined),
+            ...ResponseClass.redact(error.metadata),
+            ...extensions,
+        };
+
+        if (error.appCode) {
+            members.code = error.appCode;
+        }
+
+        if (error.docsUrl) {
+            members.docs_url = error.docsUrl;
+        }
+
+        if (details && details !== problem.detail) {
+            members.details = details;
+        }
+
+        if (maskedMessage !== undefined && ResponseClass.configStore.getActiveErrorMasking()?.includeReference !== false) {
+            members.reference = error.reference;
+        }
+
+        if (error.retryAfter) {
+            members.retry_after = error.retryAfter;
+        }
+
+        if (error.errors && error.errors.length > 0) {
+            members.errors = error.errors;
+        }
+
+        if (ResponseClass.configStore.shouldIncludeTimestamp()) {
+            members.timestamp = new Date().toISOString();
+        }
+
+        if (includeStack ?? ResponseClass.configStore.isDevelopment()) {
+            Object.assign(members, ResponseClass.formatStack(error.stack));
+
+            const causes = ResponseClass.serializeCauses(error);
+            if (causes.length > 0) {
+                members.causes = causes;
+            }
+        }
+
+        const { type, title, status, detail, instance: _instance, ...safeMembers } = members;
+        Object.assign(problem, safeMembers);
+
+        // Announce the negotiated locale
+        const headers = locale ? { ...error.headers, 'Content-Language': translator.locale } : error.headers;
+
+        return attachHeaders(problem, headers);
+    }
+
+    /**
+     * Apply the configured redaction to a value (no-op when disabled)
+     */
+    protected static redact<V>(value: V): V {
+        const redaction = this.configStore.getRedaction();
+        return redaction ? redact(value, redaction) : value;
+    }
+
+    /**
+     * Serialize an error's cause chain with stack traces (redacted as configured)
+     */
+    protected static serializeCauses(error: HttpError): SerializedErrorCause[] {
+        return serializeErrorCauses(error.cause, {
+            maxDepth: this.configStore.getMaxCauseDepth(),
+            includeStack: true,
+            stackTrace: this.configStore.getStackTraceConfig(),
+            redaction: this.configStore.getRedaction(),
+        });
+    }
+
+    /**
+     * Redact a stack trace and format it as a string and/or parsed frames,
+     * following the stack trace settings
+     */
+    protected static formatStack(stack: string | undefined): { stack?: string; frames?: StackFrame[] } {
+        return formatStackTrace(this.redact(stack), this.configStore.getStackTraceConfig());
+    }
+
+    /**
+     * Get the generic message replacing an error's own message when the
+     * masking policy applies to it (custom message for the code, or the
+     * definition's `details`), translated when available.
+     *
+     * @returns The masked message, or `undefined` if the message may be exposed
+     */
+    protected static getMaskedMessage(error: HttpError, translator: Translator): string | undefined {
+        const masking = this.configStore.getActiveErrorMasking();
+
+        if (!masking || error.expose || masking.isSafe?.(error)) {
+            return undefined;
+        }
+
+        const statusClass = error.isServerError() ? '5xx' : '4xx';
+        if (!(masking.statusClasses ?? ['5xx']).includes(statusClass)) {
+            return undefined;
+        }
+
+        const customMessage = this.configStore.getCustomMessage(error.code);
+        if (customMessage !== undefined) {
+            return translator.lookup('customMessages', error.code) ?? customMessage;
+        }
+
+        return translator.lookup('details', error.code) ?? error.details;
+    }
+
+    /**
+     * Create the translator for a locale tag or `Accept-Language` value
+     */
+    protected static getTranslator(locale: string | undefined): Translator {
+        return new Translator(locale, this.configStore.getI18nConfig());
+    }
+
+    /**
+     * Translate an error's message. The first match wins: the application
+     * error code (unless a catalog error's message was overridden, leaving it
+     * without its entry's template), the configured custom message for the status code, the
+     * definition's `details`, then the message template (or plain message)
+     * as a key of `messages`. Translations are filled from the message
+     * parameters; messages without a translation are returned unchanged.
+     */
+    protected static localizeMessage(error: HttpError, translator: Translator): string {
+        const template = error.messageTemplate ?? error.message;
+        const customMessage = this.configStore.getCustomMessage(error.code);
+
+        const translated =
+            (error.appCode && error.messageTemplate !== undefined ? translator.lookup('messages', error.appCode) : undefined) ??
+            (template === customMessage ? translator.lookup('customMessages', error.code) : undefined) ??
+            (template === error.details ? translator.lookup('details', error.code) : undefined) ??
+            translator.lookup('messages', template);
+
+        return translated === undefined ? error.message : formatMessage(translated, this.redact(error.messageParams ?? error.metadata ?? {}));
+    }
+
+    /**
+     * Merge the mapped request context fields into a response, either at the
+     * top level (never overriding core fields) or inside `metadata`.
+     *
+     * @returns The active request context, if merging is enabled
+     */
+    protected static applyRequestContext(response: SuccessResponse | ErrorResponse): RequestContext | undefined {
+        const contextConfig = this.configStore.getRequestContextConfig();
+        const context = contextConfig ? resolveRequestContext() : undefined;
+
+        if (!contextConfig || !context) {
+            return undefined;
+        }
+
+        const fields = getRequestContextFields(context, contextConfig);
+
+        if (Object.keys(fields).length > 0) {
+            if (contextConfig.placement === 'metadata') {
+                response.metadata = { ...fields, ...response.metadata };
+            } else {
+                const { success, status_code, error, timestamp, data, message, metadata, retry_after, ...safeFields } = fields;
+                Object.assign(response, safeFields);
+            }
+        }
+
+        return context;
     }
 
     // ========================================================================
@@ -170,32 +460,34 @@ export class HttpResponse {
 
     /** 200 OK */
     static ok<T = unknown>(data?: T, message?: string): SuccessResponse<T> {
-        return HttpResponse.success<T>({ data, message, statusCode: HttpSuccessCode.OK });
+        return responseClassOf(this).success<T>({ data, message, statusCode: HttpSuccessCode.OK });
     }
 
-    /** 201 Created */
-    static created<T = unknown>(data?: T, message?: string): SuccessResponse<T> {
-        return HttpResponse.success<T>({ data, message, statusCode: HttpSuccessCode.CREATED });
+    /** 201 Created — optionally sets the `Location` header */
+    static created<T = unknown>(data?: T, message?: string, location?: string): SuccessResponse<T> {
+        const headers = location ? { Location: location } : undefined;
+        return responseClassOf(this).success<T>({ data, message, statusCode: HttpSuccessCode.CREATED, headers });
     }
 
     /** 202 Accepted */
     static accepted<T = unknown>(data?: T, message?: string): SuccessResponse<T> {
-        return HttpResponse.success<T>({ data, message, statusCode: HttpSuccessCode.ACCEPTED });
+        return responseClassOf(this).success<T>({ data, message, statusCode: HttpSuccessCode.ACCEPTED });
     }
 
     /** 204 No Content */
     static noContent(): SuccessResponse<never> {
-        return HttpResponse.success<never>({ statusCode: HttpSuccessCode.NO_CONTENT });
+        return responseClassOf(this).success<never>({ statusCode: HttpSuccessCode.NO_CONTENT });
     }
 
-    /** 206 Partial Content */
-    static partialContent<T = unknown>(data?: T, message?: string): SuccessResponse<T> {
-        return HttpResponse.success<T>({ data, message, statusCode: HttpSuccessCode.PARTIAL_CONTENT });
+    /** 206 Partial Content — optionally sets the `Content-Range` header */
+    static partialContent<T = unknown>(data?: T, message?: string, contentRange?: string): SuccessResponse<T> {
+        const headers = contentRange ? { 'Content-Range': contentRange } : undefined;
+        return responseClassOf(this).success<T>({ data, message, statusCode: HttpSuccessCode.PARTIAL_CONTENT, headers });
     }
 
     /** 304 Not Modified — Note: 304 is a 3xx redirect code, included here as a convenience method */
     static notModified(): SuccessResponse<never> {
-        return HttpResponse.success<never>({ statusCode: HttpRedirectCode.NOT_MODIFIED });
+        return responseClassOf(this).success<never>({ statusCode: HttpRedirectCode.NOT_MODIFIED });
     }
 
     // ========================================================================
@@ -217,27 +509,91 @@ export class HttpResponse {
     }
 
     /**
-     * Create a paginated success response
+     * Validate an untrusted payload (e.g. from another service) against the
+     * envelope shape: `success`, `status_code` range for its kind, `timestamp`
+     * format, `error` strings and field errors, `retry_after` and
+     * `metadata.pagination`. `data` itself is not validated.
+     *
+     * @example
+     * ```ts
+     * const result = HttpResponse.parse<User>(await res.json());
+     * if (!result.valid) {
+     *   throw HttpError.badGateway('Invalid upstream response', { issues: result.issues });
+     * }
+     * if (HttpResponse.isSuccess(result.response)) {
+     *   return result.response.data;
+     * }
+     * ```
+     */
+    static parse<T = unknown>(payload: unknown): EnvelopeParseResult<T> {
+        const issues = validateEnvelope(payload);
+
+        if (issues.length > 0) {
+            return { valid: false, issues };
+        }
+
+        return { valid: true, response: payload as SuccessResponse<T> | ErrorResponse };
+    }
+
+    /**
+     * Create a paginated success response.
+     *
+     * Page mode (`page`, `limit`, `total`) computes `total_pages`, `has_next`
+     * and `has_prev`. Cursor mode (`nextCursor`, `prevCursor`, `hasMore`,
+     * optional `total`) avoids counting rows and emits `next_cursor`,
+     * `prev_cursor` and `has_more`. With `links`, navigation links are added
+     * to `metadata.pagination.links` and sent as an RFC 8288 `Link` header.
+     *
+     * @example
+     * ```ts
+     * HttpResponse.paginated(users, { page: 2, limit: 20, total: 135, links: { baseUrl: '/users', query: req.query } });
+     * HttpResponse.paginated(users, { nextCursor: encodeCursor({ id: last.id }), hasMore: true, limit: 20 });
+     * ```
      */
     static paginated<T = unknown>(
         data: T[],
-        pagination: PaginationInput,
+        pagination: PaginationInput | CursorPaginationInput,
         message?: string
     ): SuccessResponse<T[]> {
-        const effectiveLimit = pagination.limit > 0 ? pagination.limit : 1;
-        return HttpResponse.success<T[]>({
-            data,
-            message,
-            metadata: {
-                pagination: {
-                    page: pagination.page,
-                    limit: effectiveLimit,
-                    total: pagination.total,
-                    total_pages: pagination.totalPages ?? Math.ceil(pagination.total / effectiveLimit),
-                    has_next: pagination.page < (pagination.totalPages ?? Math.ceil(pagination.total / effectiveLimit)),
-                    has_prev: pagination.page > 1,
-                },
-            },
-        });
+        let meta: PaginationMeta | CursorPaginationMeta;
+
+        if ('hasMore' in pagination) {
+            const cursorMeta: CursorPaginationMeta = {
+                next_cursor: pagination.nextCursor ?? null,
+                prev_cursor: pagination.prevCursor ?? null,
+                has_more: pagination.hasMore,
+            };
+
+            if (pagination.total !== undefined) {
+                cursorMeta.total = pagination.total;
+            }
+
+            if (pagination.limit !== undefined) {
+                cursorMeta.limit = pagination.limit;
+            }
+
+            meta = cursorMeta;
+        } else {
+            const effectiveLimit = pagination.limit > 0 ? pagination.limit : 1;
+            const totalPages = pagination.totalPages ?? Math.ceil(pagination.total / effectiveLimit);
+
+            meta = {
+                page: pagination.page,
+                limit: effectiveLimit,
+                total: pagination.total,
+                total_pages: totalPages,
+                has_next: pagination.page < totalPages,
+                has_prev: pagination.page > 1,
+            };
+        }
+
+        let headers: ResponseHeaders | undefined;
+
+        if (pagination.links) {
+            meta.links = buildPaginationLinks(meta, pagination.links);
+            headers = { Link: formatLinkHeader(meta.links) };
+        }
+
+        return responseClassOf(this).success<T[]>({ data, message, metadata: { pagination: meta }, headers });
     }
 }
@@ -0,0 +1,183 @@
+/**
+ * HTTP Response Kit - Envelope Validation
+ * @module responses/envelope-validation
+ */
+
+import type { FieldError } from '../types';
+import { ValidationErrorBuilder } from '../errors/ValidationErrorBuilder';
+
+type Path = Array<string | number>;
+
+/**
+ * ISO 8601 date-time as produced by `Date.prototype.toISOString()` (offsets allowed)
+ */
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Check for a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Describe the runtime type of a value for issue messages
+ */
+function typeOf(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Collects envelope issues with consistent codes and messages
+ */
+class EnvelopeChecker {
+    readonly issues = new ValidationErrorBuilder();
+
+    /** Report a missing or mistyped value; returns true when the type matches */
+    type(value: unknown, path: Path, expected: 'string' | 'number' | 'boolean' | 'object' | 'array', required = true): boolean {
+        const actual = typeOf(value);
+
+        if (value === undefined) {
+            if (required) {
+                this.issues.add(path, 'required', `Expected ${expected}, received undefined`, { expected });
+            }
+            return false;
+        }
+
+        if (actual !== expected) {
+            this.issues.add(path, 'invalid_type', `Expected ${expected}, received ${actual}`, { expected, received: actual });
+            return false;
+        }
+
+        return true;
+    }
+
+    /** Check an integer within an inclusive range */
+    integer(value: unknown, path: Path, min: number, max = Number.MAX_SAFE_INTEGER, required = true): void {
+        if (!this.type(value, path, 'number', required)) {
+            return;
+        }
+
+        if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+            const range = max === Number.MAX_SAFE_INTEGER ? `>= ${min}` : `between ${min} and ${max}`;
+            this.issues.add(path, 'out_of_range', `Expected an integer ${range}, received ${value}`, { min, max });
+        }
+    }
+
+    /** Check optional string members */
+    strings(source: Record<string, unknown>, path: Path, keys: string[], required = false): void {
+        for (const key of keys) {
+            this.type(source[key], [...path, key], 'string', required);
+        }
+    }
+}
+
+/**
+ * Validate `metadata.pagination` (page or cursor mode)
+ */
+function checkPagination(check: EnvelopeChecker, pagination: unknown, path: Path): void {
+    if (!check.type(pagination, path, 'object')) {
+        return;
+    }
+
+    const value = pagination as Record<string, unknown>;
+
+    if (check.type(value.links, [...path, 'links'], 'object', false)) {
+        const links = value.links as Record<string, unknown>;
+        check.type(links.self, [...path, 'links', 'self'], 'string');
+        check.strings(links, [...path, 'links'], ['first', 'prev', 'next', 'last']);
+    }
+
+    if ('has_more' in value) {
+        for (const key of ['next_cursor', 'prev_cursor']) {
+            if (value[key] !== null) {
+                check.type(value[key], [...path, key], 'string');
+            }
+        }
+        check.type(value.has_more, [...path, 'has_more'], 'boolean');
+        check.integer(value.total, [...path, 'total'], 0, undefined, false);
+        check.integer(value.limit, [...path, 'limit'], 1, undefined, false);
+        return;
+    }
+
+    check.integer(value.page, [...path, 'page'], 1);
+    check.integer(value.limit, [...path, 'limit'], 1);
+    check.integer(value.total, [...path, 'total'], 0);
+    check.integer(value.total_pages, [...path, 'total_pages'], 0);
+    check.type(value.has_next, [...path, 'has_next'], 'boolean');
+    check.type(value.has_prev, [...path, 'has_prev'], 'boolean');
+}
+
+/**
+ * Validate the `error` member of an error envelope
+ */
+function checkErrorBody(check: EnvelopeChecker, error: unknown): void {
+    if (!check.type(error, ['error'], 'object')) {
+        return;
+    }
+
+    const value = error as Record<string, unknown>;
+
+    check.strings(value, ['error'], ['type', 'title', 'message'], true);
+    check.strings(value, ['error'], ['code', 'docs_url', 'details', 'instance', 'reference', 'stack']);
+
+    if (check.type(value.errors, ['error', 'errors'], 'array', false)) {
+        (value.errors as unknown[]).forEach((fieldError, index) => {
+            const path = ['error', 'errors', index];
+            if (check.type(fieldError, path, 'object')) {
+                check.strings(fieldError as Record<string, unknown>, path, ['path', 'code', 'message'], true);
+            }
+        });
+    }
+}
+
+/**
+ * Validate an untrusted payload against the `SuccessResponse`/`ErrorResponse`
+ * envelope shape.
+ *
+ * @returns Field errors describing every mismatch (empty when valid)
+ */
+export function validateEnvelope(payload: unknown): FieldError[] {
+    const check = new EnvelopeChecker();
+
+    if (!isRecord(payload)) {
+        check.issues.add([], 'invalid_type', `Expected object, received ${typeOf(payload)}`, { expected: 'object', received: typeOf(payload) });
+        return check.issues.errors;
+    }
+
+    if (check.type(payload.success, ['success'], 'boolean')) {
+        const [min, max] = payload.success ? [100, 399] : [400, 599];
+        check.integer(payload.status_code, ['status_code'], min, max);
+    } else {
+        check.integer(payload.status_code, ['status_code'], 100, 599);
+    }
+
+    if (check.type(payload.timestamp, ['timestamp'], 'string', false)) {
+        const timestamp = payload.timestamp as string;
+        if (!ISO_TIMESTAMP.test(timestamp) || Number.isNaN(Date.parse(timestamp))) {
+            check.issues.add(['timestamp'], 'invalid_format', 'Expected an ISO 8601 date-time', { format: 'date-time' });
+        }
+    }
+
+    if (check.type(payload.metadata, ['metadata'], 'object', false)) {
+        const { pagination } = payload.metadata as Record<string, unknown>;
+        if (pagination !== undefined) {
+            checkPagination(check, pagination, ['metadata', 'pagination']);
+        }
+    }
+
+    if (payload.success === true) {
+        check.strings(payload, [], ['message']);
+    } else if (payload.success === false) {
+        checkErrorBody(check, payload.error);
+
+        if (check.type(payload.retry_after, ['retry_after'], 'number', false) && (payload.retry_after as number) < 0) {
+            check.issues.add(['retry_after'], 'out_of_range', `Expected a number >= 0, received ${payload.retry_after}`, { min: 0 });
+        }
+    }
+
+    return check.issues.errors;
+}
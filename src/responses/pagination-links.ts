@@ -0,0 +1,109 @@
+/**
+ * HTTP Response Kit - Pagination Links
+ * @module responses/pagination-links
+ */
+
+import type { PaginationMeta, CursorPaginationMeta, PaginationLinks, PaginationLinksConfig } from '../types';
+
+/**
+ * Link relations in `Link` header order
+ */
+const RELATIONS: Array<keyof PaginationLinks> = ['self', 'first', 'prev', 'next', 'last'];
+
+/**
+ * Build a link from the base URL, the carried query parameters and the
+ * pagination parameters (`undefined` removes a parameter)
+ */
+function buildUrl(config: PaginationLinksConfig, overrides: Record<string, string | number | undefined>): string {
+    const [path, search = ''] = config.baseUrl.split('?', 2);
+    const params = new URLSearchParams(search);
+
+    for (const [key, value] of Object.entries(config.query ?? {})) {
+        params.delete(key);
+        if (value === undefined || value === null) {
+            continue;
+        }
+        for (const item of Array.isArray(value) ? value : [value]) {
+            params.append(key, String(item));
+        }
+    }
+
+    // Pagination parameters always come last, in a stable order
+    for (const [key, value] of Object.entries(overrides)) {
+        params.delete(key);
+        if (value !== undefined) {
+            params.append(key, String(value));
+        }
+    }
+
+    const query = params.toString();
+    return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Build `self`, `first`, `prev`, `next` and `last` links for a page or
+ * cursor paginated response. Query parameters (e.g. filters) are kept in
+ * every link; cursor mode has no `last` link.
+ *
+ * @example
+ * ```ts
+ * buildPaginationLinks(meta, { baseUrl: '/users', query: { role: 'admin' } });
+ * // { self: '/users?role=admin&page=2&limit=20', first: '/users?role=admin&page=1&limit=20', ... }
+ * ```
+ */
+export function buildPaginationLinks(
+    pagination: PaginationMeta | CursorPaginationMeta,
+    config: PaginationLinksConfig
+): PaginationLinks {
+    const { pageParam = 'page', limitParam = 'limit', cursorParam = 'cursor' } = config;
+
+    if ('has_more' in pagination) {
+        // Without a known page size, the request's own limit parameter is kept
+        const limit = pagination.limit === undefined ? {} : { [limitParam]: pagination.limit };
+        const links: PaginationLinks = {
+            self: buildUrl(config, limit),
+            first: buildUrl(config, { [cursorParam]: undefined, ...limit }),
+        };
+
+        if (pagination.prev_cursor) {
+            links.prev = buildUrl(config, { [cursorParam]: pagination.prev_cursor, ...limit });
+        }
+
+        if (pagination.next_cursor) {
+            links.next = buildUrl(config, { [cursorParam]: pagination.next_cursor, ...limit });
+        }
+
+        return links;
+    }
+
+    const page = (value: number) => buildUrl(config, { [pageParam]: value, [limitParam]: pagination.limit });
+    const links: PaginationLinks = { self: page(pagination.page), first: page(1) };
+
+    if (pagination.has_prev) {
+        links.prev = page(Math.min(pagination.page - 1, Math.max(pagination.total_pages, 1)));
+    }
+
+    if (pagination.has_next) {
+        links.next = page(pagination.page + 1);
+    }
+
+    links.last = page(Math.max(pagination.total_pages, 1));
+
+    return links;
+}
+
+/**
+ * Format pagination links as an RFC 8288 `Link` header value
+ *
+ * @example
+ * ```ts
+ * formatLinkHeader({ self: '/users?page=2', next: '/users?page=3' });
+ * // '</users?page=2>; rel="self", </users?page=3>; rel="next"'
+ * ```
+ */
+export function formatLinkHeader(links: PaginationLinks): string {
+    return RELATIONS
+        .filter((rel) => links[rel] !== undefined)
+        .map((rel) => `<${links[rel]}>; rel="${rel}"`)
+        .join(', ');
+}
@@ -0,0 +1,158 @@
+/**
+ * HTTP Response Kit - Pagination Query Parameters
+ * @module responses/pagination-params
+ */
+
+import type { PaginationInput } from '../types';
+import { ValidationErrorBuilder } from '../errors/ValidationErrorBuilder';
+import { defaultResponseKit } from '../kit';
+import type { ResponseKit } from '../kit';
+
+/**
+ * Query parameters as a plain object (e.g. `req.query`) or `URLSearchParams`
+ */
+export type PaginationQueryLike = Record<string, unknown> | { get(name: string): string | null };
+
+/**
+ * Options for `parsePagination()`
+ */
+export interface ParsePaginationOptions {
+    /** Page size when the limit parameter is missing (default: 20) */
+    defaultLimit?: number;
+    /** Largest accepted page size (default: 100) */
+    maxLimit?: number;
+    /** Page number parameter (default: 'page') */
+    pageParam?: string;
+    /** Page size parameter (default: 'limit') */
+    limitParam?: string;
+    /** Total number of items, when known: pages past the last page throw a 404 */
+    total?: number;
+    /** Kit whose `HttpError` class is thrown (default: global configuration) */
+    kit?: ResponseKit;
+}
+
+/**
+ * Validated pagination parameters
+ */
+export type ParsedPagination = Pick<PaginationInput, 'page' | 'limit'> & {
+    /** Number of items to skip: `(page - 1) * limit` */
+    offset: number;
+};
+
+/**
+ * Read a query parameter from either representation
+ */
+function readParam(query: PaginationQueryLike, name: string): unknown {
+    if (typeof query.get === 'function') {
+        return (query as { get(name: string): string | null }).get(name) ?? undefined;
+    }
+    return (query as Record<string, unknown>)[name];
+}
+
+/**
+ * Parse an integer parameter, reporting invalid values
+ *
+ * @returns The value, `undefined` when missing, or `null` when invalid
+ */
+function parseInteger(
+    issues: ValidationErrorBuilder,
+    value: unknown,
+    name: string,
+    min: number,
+    max = Number.MAX_SAFE_INTEGER
+): number | undefined | null {
+    if (value === undefined || value === null || value === '') {
+        return undefined;
+    }
+
+    const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : undefined;
+
+    if (text === undefined || !/^[+-]?\d+$/.test(text)) {
+        issues.add(name, 'invalid_type', `Expected an integer, received ${JSON.stringify(value) ?? String(value)}`, { expected: 'integer' });
+        return null;
+    }
+
+    const number = Number(text);
+
+    if (number < min || number > max) {
+        const range = max === Number.MAX_SAFE_INTEGER ? `>= ${min}` : `between ${min} and ${max}`;
+        issues.add(name, 'out_of_range', `Expected an integer ${range}, received ${text}`, { min, max });
+        return null;
+    }
+
+    return number;
+}
+
+/**
+ * Throw a 404 `HttpError` when a page lies past the last page
+ * (page 1 of an empty collection is always in range)
+ *
+ * @example
+ * ```ts
+ * const pagination = parsePagination(req.query);
+ * const [rows, total] = await Promise.all([findUsers(pagination), countUsers()]);
+ * assertPageInRange(pagination, total);
+ * ```
+ */
+export function assertPageInRange(
+    pagination: Pick<PaginationInput, 'page' | 'limit'>,
+    total: number,
+    options: Pick<ParsePaginationOptions, 'kit'> = {}
+): void {
+    const { kit = defaultResponseKit } = options;
+    const totalPages = Math.max(Math.ceil(total / pagination.limit), 1);
+
+    if (pagination.page > totalPages) {
+        throw new kit.HttpError(404, {
+            message: `Page ${pagination.page} does not exist; the last page is ${totalPages}`,
+            metadata: { page: pagination.page, total_pages: totalPages },
+            params: false,
+            expose: true,
+        });
+    }
+}
+
+/**
+ * Parse and validate `page`/`limit` query parameters.
+ * Missing values default to page 1 and `defaultLimit`; non-integers, pages
+ * below 1 and limits outside 1–`maxLimit` throw a 400 `HttpError` with a
+ * field error per parameter. With `total`, pages past the last page throw
+ * a 404 (see `assertPageInRange()`).
+ *
+ * @example
+ * ```ts
+ * app.get('/users', async (req, res) => {
+ *   const { page, limit, offset } = parsePagination(req.query, { defaultLimit: 20, maxLimit: 100 });
+ *   const { rows, total } = await db.users.findAndCount({ offset, limit });
+ *   sendResponse(res, HttpResponse.paginated(rows, { page, limit, total }));
+ * });
+ * ```
+ */
+export function parsePagination(query: PaginationQueryLike, options: ParsePaginationOptions = {}): ParsedPagination {
+    const {
+        defaultLimit = 20,
+        maxLimit = 100,
+        pageParam = 'page',
+        limitParam = 'limit',
+        total,
+        kit = defaultResponseKit,
+    } = options;
+
+    const issues = new ValidationErrorBuilder();
+    const page = parseInteger(issues, readParam(query, pageParam), pageParam, 1) ?? 1;
+    const limit = parseInteger(issues, readParam(query, limitParam), limitParam, 1, maxLimit) ?? defaultLimit;
+
+    if (!issues.hasErrors() && !Number.isSafeInteger((page - 1) * limit)) {
+        issues.add(pageParam, 'out_of_range', `Page ${page} is too large`, { min: 1 });
+    }
+
+    if (issues.hasErrors()) {
+        throw new kit.HttpError(400, { message: 'Invalid pagination parameters', errors: issues.errors, expose: true });
+    }
+
+    if (total !== undefined) {
+        assertPageInRange({ page, limit }, total, { kit });
+    }
+
+    return { page, limit, offset: (page - 1) * limit };
+}
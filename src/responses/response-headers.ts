@@ -0,0 +1,74 @@
+/**
+ * HTTP Response Kit - Response Headers
+ * @module responses/response-headers
+ */
+
+import type { ResponseHeaders } from '../types';
+
+/**
+ * Symbol key under which headers are attached to formatted responses.
+ * Symbol-keyed properties are skipped by `JSON.stringify`, so headers never
+ * reach the response body, but survive object spread in transformers.
+ */
+const RESPONSE_HEADERS = Symbol.for('http-response-kit.headers');
+
+/**
+ * Attach headers to a formatted response (no-op when there are none)
+ */
+export function attachHeaders<T extends object>(response: T, headers?: ResponseHeaders): T {
+    if (headers && Object.keys(headers).length > 0) {
+        (response as Record<symbol, unknown>)[RESPONSE_HEADERS] = { ...headers };
+    }
+    return response;
+}
+
+/**
+ * Get the HTTP headers to send with a formatted response.
+ * Includes `Retry-After` derived from `retry_after` unless set explicitly.
+ *
+ * @example
+ * ```ts
+ * const response = HttpResponse.created(user, undefined, `/users/${user.id}`);
+ * getResponseHeaders(response); // { Location: '/users/42' }
+ * ```
+ */
+export function getResponseHeaders(response: object): ResponseHeaders {
+    const headers: ResponseHeaders = {
+        ...((response as Record<symbol, ResponseHeaders | undefined>)[RESPONSE_HEADERS]),
+    };
+
+    const retryAfter = (response as { retry_after?: unknown }).retry_after;
+    const hasRetryAfter = Object.keys(headers).some((name) => name.toLowerCase() === 'retry-after');
+
+    if (typeof retryAfter === 'number' && retryAfter > 0 && !hasRetryAfter) {
+        headers['Retry-After'] = String(retryAfter);
+    }
+
+    return headers;
+}
+
+/**
+ * Parse a `Retry-After` header value, given either as delay-seconds or as an
+ * HTTP-date, into a number of seconds from `now` (never negative).
+ *
+ * @returns The delay in seconds, or `undefined` if the value is missing or invalid
+ *
+ * @example
+ * ```ts
+ * parseRetryAfter('120');                           // 120
+ * parseRetryAfter('Wed, 21 Oct 2026 07:28:00 GMT'); // seconds until that date
+ * ```
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+    const trimmed = value?.trim();
+    if (!trimmed) {
+        return undefined;
+    }
+
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed);
+    }
+
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+}
@@ -3,6 +3,15 @@
  * @module types
  */
 
+// ============================================================================
+// Header Types
+// ============================================================================
+
+/**
+ * HTTP response headers, kept out of the JSON body
+ */
+export type ResponseHeaders = Record<string, string>;
+
 // ============================================================================
 // Error Types
 // ============================================================================
@@ -25,18 +34,84 @@ export interface HttpErrorInfo {
     resolution?: string;
 }
 
+/**
+ * Field-level validation error
+ */
+export interface FieldError {
+    /** Dot/bracket path of the offending field (e.g. `address.zip`, `items[0].name`) */
+    path: string;
+    /** Machine-readable error code (e.g. `required`, `too_short`) */
+    code: string;
+    /** Human-readable message */
+    message: string;
+    /** Parameters of the failed rule (e.g. `{ min: 8 }`) */
+    params?: Record<string, unknown>;
+}
+
+/**
+ * Parsed stack trace frame
+ */
+export interface StackFrame {
+    /** Function or method name (absent for anonymous top-level code) */
+    function?: string;
+    /** File path or URL, relative to the project root when it lies inside it */
+    file?: string;
+    /** 1-based line number */
+    line?: number;
+    /** 1-based column number */
+    column?: number;
+    /** Whether the frame comes from a `node_modules` dependency */
+    isNodeModule: boolean;
+    /** Whether the frame comes from Node.js internals (`node:internal/...`) */
+    isInternal: boolean;
+    /** Number of following frames of the same kind collapsed into this one */
+    collapsed?: number;
+}
+
+/**
+ * Serialized entry of an error's `cause` chain
+ */
+export interface SerializedErrorCause {
+    /** Error name (e.g. `TypeError`) */
+    name: string;
+    /** Error message */
+    message: string;
+    /** Error code carried by the cause (e.g. `ECONNREFUSED`) */
+    code?: string | number;
+    /** Stack trace (only when stack traces are included) */
+    stack?: string;
+    /** Parsed stack trace (only when frames are enabled via `stackTrace.format`) */
+    frames?: StackFrame[];
+    /** Children of an `AggregateError` */
+    errors?: SerializedErrorCause[];
+    /** Cause chain of an `AggregateError` child */
+    causes?: SerializedErrorCause[];
+}
+
 /**
  * Configuration options for HttpError
  */
 export interface HttpErrorOptions {
-    /** Custom error message */
+    /** Custom error message; may be a template with `{placeholders}` (see `params`) */
     message?: string;
+    /** Template parameters; without them `message` is literal text and only `customMessages` are filled from `metadata` (`false` disables both) */
+    params?: Record<string, unknown> | false;
     /** Additional metadata */
     metadata?: Record<string, unknown>;
     /** Original error cause */
     cause?: Error;
     /** Retry-after time in seconds */
     retryAfter?: number;
+    /** HTTP response headers (e.g. `Allow`, `WWW-Authenticate`) */
+    headers?: ResponseHeaders;
+    /** Field-level validation errors (typically for 400/422) */
+    errors?: FieldError[];
+    /** Mark the message as safe to expose even when error masking applies */
+    expose?: boolean;
+    /** Application-level error code (e.g. `USER_EMAIL_TAKEN`), serialized as `error.code` */
+    appCode?: string;
+    /** Documentation URL for the error, serialized as `error.docs_url` */
+    docsUrl?: string;
 }
 
 // ============================================================================
@@ -53,6 +128,29 @@ export interface HttpSuccessInfo {
     description: string;
 }
 
+/**
+ * Error definition registered for a status code (merged over the built-in
+ * or generic definition)
+ */
+export type ErrorDefinitionInput = Partial<Omit<HttpErrorInfo, 'code'>>;
+
+/**
+ * Success definition registered for a status code
+ */
+export type SuccessDefinitionInput = Partial<Omit<HttpSuccessInfo, 'code'>>;
+
+/**
+ * Set of status code definitions registered together (e.g. a vendor's codes)
+ */
+export interface StatusDefinitionPack {
+    /** Pack name */
+    name: string;
+    /** Error definitions by status code (400–599) */
+    errors?: Record<number, ErrorDefinitionInput>;
+    /** Success definitions by status code (100–399) */
+    success?: Record<number, SuccessDefinitionInput>;
+}
+
 /**
  * Configuration for success responses
  */
@@ -65,18 +163,148 @@ export interface SuccessResponseConfig<T = unknown> {
     statusCode?: number;
     /** Additional metadata */
     metadata?: Record<string, unknown>;
+    /** HTTP response headers (e.g. `Location`, `Content-Range`) */
+    headers?: ResponseHeaders;
 }
 
 /**
  * Configuration for error responses
  */
 export interface ErrorResponseConfig {
-    /** Include stack trace in response */
+    /** Include stack trace and cause chain in response */
     includeStack?: boolean;
     /** Additional fields to include */
     additionalFields?: Record<string, unknown>;
     /** Fallback status code for unknown errors */
     fallbackCode?: number;
+    /** Locale or `Accept-Language` value for titles and messages (default: the request context's `locale`) */
+    locale?: string;
+}
+
+// ============================================================================
+// Request Context Types
+// ============================================================================
+
+/**
+ * Values describing the request currently being handled
+ */
+export interface RequestContext {
+    /** Request identifier (e.g. from `X-Request-Id`) */
+    requestId?: string;
+    /** Distributed trace identifier (e.g. from `traceparent`) */
+    traceId?: string;
+    /** Request path, used as `instance` for errors */
+    instance?: string;
+    /** Preferred locale or `Accept-Language` value of the client */
+    locale?: string;
+    [key: string]: unknown;
+}
+
+/**
+ * How the request context is merged into responses
+ */
+export interface RequestContextConfig {
+    /**
+     * Context keys mapped to response field names
+     * (default: `{ requestId: 'request_id', traceId: 'trace_id' }`)
+     */
+    fields?: Record<string, string>;
+    /** Where mapped fields are placed: top level or inside `metadata` (default: 'root') */
+    placement?: 'root' | 'metadata';
+    /** Set `error.instance` (and Problem Details `instance`) from the context (default: true) */
+    includeInstance?: boolean;
+}
+
+// ============================================================================
+// Error Masking Types
+// ============================================================================
+
+/**
+ * Policy for hiding error messages from clients
+ */
+export interface ErrorMaskingConfig {
+    /** When to mask: only when `NODE_ENV` is 'production' (default), always, or never */
+    mode?: 'production' | 'always' | 'never';
+    /** Status classes whose messages are masked (default: ['5xx']) */
+    statusClasses?: Array<'4xx' | '5xx'>;
+    /** Include the opaque `error.reference` id in masked responses (default: true) */
+    includeReference?: boolean;
+    /** Allowlist: return true to expose the message of a specific error */
+    isSafe?: (error: { code: number; type: string; message: string; cause?: Error }) => boolean;
+}
+
+// ============================================================================
+// Redaction Types
+// ============================================================================
+
+/**
+ * Pattern matching sensitive substrings, optionally with a validator
+ * to confirm each match (e.g. a Luhn check for card numbers)
+ */
+export type RedactionValuePattern = RegExp | { pattern: RegExp; validate: (match: string) => boolean };
+
+/**
+ * Sensitive data redaction settings
+ */
+export interface RedactionConfig {
+    /** Sensitive key names (case-insensitive, ignoring `-`/`_`) or key patterns */
+    keys?: ReadonlyArray<string | RegExp>;
+    /** Patterns for sensitive values inside strings (default: JWTs, bearer tokens, card numbers) */
+    values?: ReadonlyArray<RedactionValuePattern>;
+    /** Maximum nesting depth inspected; deeper values are replaced (default: 10) */
+    maxDepth?: number;
+    /** Replacement marker (default: '[REDACTED]') */
+    replacement?: string;
+}
+
+// ============================================================================
+// Stack Trace Types
+// ============================================================================
+
+/**
+ * Stack trace output settings
+ */
+export interface StackTraceConfig {
+    /** Emit the raw `stack` string (default), parsed `frames`, or both */
+    format?: 'string' | 'frames' | 'both';
+    /** Project root stripped from file paths (default: `process.cwd()`, `false` to keep absolute paths) */
+    rootDir?: string | false;
+    /** Collapse consecutive `node_modules` frames into one (default: true) */
+    collapseNodeModules?: boolean;
+    /** Collapse consecutive Node.js internal frames into one (default: true) */
+    collapseInternals?: boolean;
+}
+
+// ============================================================================
+// Internationalization Types
+// ============================================================================
+
+/**
+ * Translations for one locale
+ */
+export interface LocaleBundle {
+    /** Error titles by status code */
+    titles?: Record<number, string>;
+    /** Error descriptions (`details`) by status code */
+    details?: Record<number, string>;
+    /** Suggested resolutions by status code */
+    resolutions?: Record<number, string>;
+    /** Translations of the configured `customMessages` by status code */
+    customMessages?: Record<number, string>;
+    /** Error messages keyed by application error code, message template or English message */
+    messages?: Record<string, string>;
+}
+
+/**
+ * Localization settings
+ */
+export interface I18nConfig {
+    /** Locale of the built-in texts and last fallback (default: 'en') */
+    defaultLocale?: string;
+    /** Locale bundles by tag, taking precedence over the built-in ones */
+    locales?: Record<string, LocaleBundle>;
+    /** Use the bundled translations (de, es, fr, it) (default: true) */
+    builtInLocales?: boolean;
 }
 
 // ============================================================================
@@ -91,10 +319,24 @@ export interface LibraryConfig {
     isDevelopment?: boolean;
     /** Include timestamp in responses */
     includeTimestamp?: boolean;
-    /** Custom default messages per error code */
+    /** Custom default messages per error code (templates filled from the error metadata) */
     customMessages?: Partial<Record<number, string>>;
     /** Custom response transformer */
     responseTransformer?: (response: Record<string, unknown>) => Record<string, unknown>;
+    /** Base URI prepended to error types in Problem Details documents */
+    problemTypeBaseUri?: string;
+    /** Merge the active request context into responses (`false` to disable) */
+    requestContext?: RequestContextConfig | false;
+    /** Hide error messages from clients in production */
+    errorMasking?: ErrorMaskingConfig;
+    /** Redact sensitive data from metadata, messages and stack traces (`false` to disable) */
+    redaction?: RedactionConfig | false;
+    /** Maximum depth of serialized `cause` chains and `AggregateError` children (default: 5) */
+    maxCauseDepth?: number;
+    /** Stack trace format and path cleanup */
+    stackTrace?: StackTraceConfig;
+    /** Locale bundles and fallback locale for localized error responses */
+    i18n?: I18nConfig;
 }
 
 // ============================================================================
@@ -130,13 +372,77 @@ export interface ErrorResponse {
         type: string;
         title: string;
         message: string;
+        /** Application-level error code */
+        code?: string;
+        /** Documentation URL for the error */
+        docs_url?: string;
         details?: string;
+        errors?: FieldError[];
+        instance?: string;
+        reference?: string;
         stack?: string;
+        frames?: StackFrame[];
+        causes?: SerializedErrorCause[];
     };
     metadata?: Record<string, unknown>;
     [key: string]: unknown;
 }
 
+/**
+ * Result of validating an untrusted payload with `HttpResponse.parse()`.
+ * `issues` uses the field error format (`path`, `code`, `message`, `params`).
+ */
+export type EnvelopeParseResult<T = unknown> =
+    | { valid: true; response: SuccessResponse<T> | ErrorResponse; issues?: undefined }
+    | { valid: false; response?: undefined; issues: FieldError[] };
+
+/**
+ * Minimal subset of a fetch `Response` read by `HttpError.fromResponse()`
+ */
+export interface FetchResponseLike {
+    status: number;
+    headers: { get(name: string): string | null };
+    text(): Promise<string>;
+}
+
+// ============================================================================
+// Problem Details Types (RFC 9457)
+// ============================================================================
+
+/**
+ * Problem Details document as defined by RFC 9457.
+ * Extension members live alongside the standard members.
+ */
+export interface ProblemDetails {
+    /** URI reference identifying the problem type */
+    type: string;
+    /** Short, human-readable summary of the problem type */
+    title: string;
+    /** HTTP status code */
+    status: number;
+    /** Human-readable explanation specific to this occurrence */
+    detail?: string;
+    /** URI reference identifying this specific occurrence */
+    instance?: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Configuration for Problem Details responses
+ */
+export interface ProblemDetailsConfig {
+    /** URI reference identifying this occurrence (e.g. the request path) */
+    instance?: string;
+    /** Base URI for the `type` member (overrides `problemTypeBaseUri`) */
+    typeBaseUri?: string;
+    /** Additional extension members */
+    extensions?: Record<string, unknown>;
+    /** Include stack trace and cause chain as extension members */
+    includeStack?: boolean;
+    /** Locale or `Accept-Language` value for titles and messages (default: the request context's `locale`) */
+    locale?: string;
+}
+
 // ============================================================================
 // Pagination Types
 // ============================================================================
@@ -153,6 +459,8 @@ export interface PaginationInput {
     total: number;
     /** Optional pre-computed total pages (overrides auto-calculation) */
     totalPages?: number;
+    /** Generate `metadata.pagination.links` and a `Link` header */
+    links?: PaginationLinksConfig;
 }
 
 /**
@@ -165,4 +473,67 @@ export interface PaginationMeta {
     total_pages: number;
     has_next: boolean;
     has_prev: boolean;
+    links?: PaginationLinks;
+}
+
+/**
+ * Input parameters for cursor (keyset) paginated responses
+ */
+export interface CursorPaginationInput {
+    /** Cursor of the next page (`null`/omitted on the last page) */
+    nextCursor?: string | null;
+    /** Cursor of the previous page (`null`/omitted on the first page) */
+    prevCursor?: string | null;
+    /** Whether more items follow the current page */
+    hasMore: boolean;
+    /** Optional total number of items (when cheap to compute) */
+    total?: number;
+    /** Optional page size */
+    limit?: number;
+    /** Generate `metadata.pagination.links` and a `Link` header */
+    links?: PaginationLinksConfig;
+}
+
+/**
+ * Pagination metadata included in cursor paginated responses
+ */
+export interface CursorPaginationMeta {
+    next_cursor: string | null;
+    prev_cursor: string | null;
+    has_more: boolean;
+    total?: number;
+    limit?: number;
+    links?: PaginationLinks;
+}
+
+/**
+ * Query parameter value carried into pagination links
+ */
+export type PaginationQueryValue = string | number | boolean | null | undefined | ReadonlyArray<string | number | boolean>;
+
+/**
+ * How pagination links are built
+ */
+export interface PaginationLinksConfig {
+    /** URL or path of the collection (may contain a query string) */
+    baseUrl: string;
+    /** Query parameters kept in every link, e.g. filters from the request */
+    query?: Record<string, PaginationQueryValue>;
+    /** Page number parameter (default: 'page') */
+    pageParam?: string;
+    /** Page size parameter (default: 'limit') */
+    limitParam?: string;
+    /** Cursor parameter (default: 'cursor') */
+    cursorParam?: string;
+}
+
+/**
+ * Navigation links of a paginated response (RFC 8288 relation names)
+ */
+export interface PaginationLinks {
+    self: string;
+    first?: string;
+    prev?: string;
+    next?: string;
+    last?: string;
 }
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { HttpError } from '../src/errors/HttpError';
+import { HttpResponse } from '../src/responses/HttpResponse';
+import { parseRetryAfter } from '../src/responses/response-headers';
 import { HttpClientErrorCode, HttpServerErrorCode } from '../src/constants/status-codes';
 import { HttpErrorDefinitions } from '../src/constants/error-definitions';
 import { HttpSuccessDefinitions, HttpRedirectDefinitions, HttpInfoDefinitions } from '../src/constants/success-definitions';
@@ -69,6 +71,16 @@ describe('HttpError', () => {
             expect(error.message).toBe('Something failed');
         });
 
+        it('should set headers from factory arguments', () => {
+            expect(HttpError.unauthorized(undefined, undefined, 'Bearer realm="api"').headers)
+                .toEqual({ 'WWW-Authenticate': 'Bearer realm="api"' });
+            expect(HttpError.methodNotAllowed(undefined, undefined, ['GET', 'POST']).headers)
+                .toEqual({ Allow: 'GET, POST' });
+            expect(HttpError.rangeNotSatisfiable(undefined, undefined, 1024).headers)
+                .toEqual({ 'Content-Range': 'bytes */1024' });
+            expect(HttpError.notFound().headers).toBeUndefined();
+        });
+
         it('should use default retryAfter from definition for 503', () => {
             const error = HttpError.serviceUnavailable();
             expect(error.retryAfter).toBe(60);
@@ -148,6 +160,104 @@ describe('HttpError', () => {
         });
     });
 
+    describe('fromProblemDetails()', () => {
+        it('should rebuild an HttpError from a Problem Details document', () => {
+            const error = HttpError.fromProblemDetails({
+                type: 'https://api.example.com/problems/too_many_requests',
+                title: 'Too Many Requests',
+                status: 429,
+                detail: 'Slow down',
+                instance: '/orders',
+                retry_after: 30,
+                limit: 100,
+            });
+
+            expect(error.code).toBe(429);
+            expect(error.type).toBe('too_many_requests');
+            expect(error.message).toBe('Slow down');
+            expect(error.retryAfter).toBe(30);
+            expect(error.metadata).toEqual({
+                type: 'https://api.example.com/problems/too_many_requests',
+                instance: '/orders',
+                limit: 100,
+            });
+        });
+
+        it('should use fallbackCode when status is missing or not an error', () => {
+            expect(HttpError.fromProblemDetails({ title: 'Oops' }).code).toBe(500);
+            expect(HttpError.fromProblemDetails({ status: 200 }, 502).code).toBe(502);
+        });
+    });
+
+    describe('fromJSON() / fromResponse()', () => {
+        it('should rebuild an HttpError from an ErrorResponse envelope', () => {
+            const original = new HttpError(422, {
+                message: 'Email is taken',
+                metadata: { field: 'email' },
+                errors: [{ path: 'email', code: 'taken', message: 'Email is taken' }],
+            });
+            const body = JSON.parse(JSON.stringify(HttpResponse.error(original, { includeStack: false })));
+
+            const error = HttpError.fromJSON(body);
+            expect(error).toBeInstanceOf(HttpError);
+            expect(error.code).toBe(422);
+            expect(error.type).toBe('unprocessable_entity');
+            expect(error.message).toBe('Email is taken');
+            expect(error.details).toBe(original.details);
+            expect(error.metadata).toEqual({ field: 'email' });
+            expect(error.errors).toEqual(original.errors);
+        });
+
+        it('should keep custom types, titles and references from the server', () => {
+            const error = HttpError.fromJSON({
+                success: false,
+                status_code: 499,
+                retry_after: 5,
+                error: { type: 'client_closed_request', title: 'Client Closed Request', message: 'Gone', reference: 'ref-1' },
+            });
+
+            expect(error.code).toBe(499);
+            expect(error.type).toBe('client_closed_request');
+            expect(error.title).toBe('Client Closed Request');
+            expect(error.retryAfter).toBe(5);
+            expect(error.reference).toBe('ref-1');
+        });
+
+        it('should accept Problem Details and fall back to the definition for foreign bodies', () => {
+            expect(HttpError.fromJSON({ type: 'about:blank', title: 'Not Found', status: 404, detail: 'No user' }).message).toBe('No user');
+
+            const foreign = HttpError.fromJSON({ msg: 'upstream exploded' }, 502);
+            expect(foreign.code).toBe(502);
+            expect(foreign.message).toBe(HttpErrorDefinitions[502].details);
+            expect(HttpError.fromJSON('<html>Bad Gateway</html>', 502).type).toBe('bad_gateway');
+        });
+
+        it('should parse fetch responses and the Retry-After header', async () => {
+            const envelope = HttpResponse.error(HttpError.conflict('Version mismatch'));
+            const conflict = await HttpError.fromResponse(new Response(JSON.stringify(envelope), { status: 409 }));
+            expect(conflict.code).toBe(409);
+            expect(conflict.message).toBe('Version mismatch');
+
+            const limited = await HttpError.fromResponse(new Response('Too many', { status: 429, headers: { 'Retry-After': '120' } }));
+            expect(limited.code).toBe(429);
+            expect(limited.retryAfter).toBe(120);
+
+            const retryDate = new Date(Date.now() + 30_000).toUTCString();
+            const unavailable = await HttpError.fromResponse(new Response(null, { status: 503, headers: { 'Retry-After': retryDate } }));
+            expect(unavailable.retryAfter).toBeGreaterThanOrEqual(28);
+            expect(unavailable.retryAfter).toBeLessThanOrEqual(30);
+        });
+
+        it('should parse Retry-After values in seconds and HTTP-date form', () => {
+            const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+            expect(parseRetryAfter('120', now)).toBe(120);
+            expect(parseRetryAfter('Wed, 21 Oct 2026 07:29:30 GMT', now)).toBe(90);
+            expect(parseRetryAfter('Wed, 21 Oct 2026 07:00:00 GMT', now)).toBe(0);
+            expect(parseRetryAfter('soon', now)).toBeUndefined();
+            expect(parseRetryAfter(null)).toBeUndefined();
+        });
+    });
+
     describe('definition consistency (#5)', () => {
         it('should have matching code between key and value in HttpErrorDefinitions', () => {
             for (const [key, info] of Object.entries(HttpErrorDefinitions)) {
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { HttpResponse } from '../src/responses/HttpResponse';
 import { HttpError } from '../src/errors/HttpError';
+import { getResponseHeaders } from '../src/responses/response-headers';
 import { configure, resetConfig } from '../src/config';
 
 describe('HttpResponse', () => {
@@ -123,6 +124,64 @@ describe('HttpResponse', () => {
         });
     });
 
+    describe('problem()', () => {
+        it('should map an HttpError to a Problem Details document', () => {
+            const error = HttpError.notFound('User not found', { resource: 'user' });
+            const problem = HttpResponse.problem(error, { instance: '/users/42', includeStack: false });
+
+            expect(problem).toEqual({
+                type: 'not_found',
+                title: 'Not Found',
+                status: 404,
+                detail: 'User not found',
+                instance: '/users/42',
+                details: 'The requested resource could not be found.',
+                resource: 'user',
+                timestamp: '2026-02-28T12:00:00.000Z',
+            });
+        });
+
+        it('should prefix type with the configured base URI', () => {
+            configure({ problemTypeBaseUri: 'https://api.example.com/problems/' });
+            const problem = HttpResponse.problem(new HttpError(409));
+            expect(problem.type).toBe('https://api.example.com/problems/conflict');
+
+            const overridden = HttpResponse.problem(new HttpError(409), { typeBaseUri: 'urn:problem' });
+            expect(overridden.type).toBe('urn:problem/conflict');
+        });
+
+        it('should include retry_after and extensions without overriding standard members', () => {
+            const error = HttpError.tooManyRequests('Slow down', 30, { status: 200 });
+            const problem = HttpResponse.problem(error, {
+                extensions: { title: 'Hijacked', limit: 100 },
+                includeStack: false,
+            });
+
+            expect(problem.status).toBe(429);
+            expect(problem.title).toBe('Too Many Requests');
+            expect(problem.retry_after).toBe(30);
+            expect(problem.limit).toBe(100);
+        });
+
+        it('should omit details when equal to detail', () => {
+            const problem = HttpResponse.problem(new HttpError(404), { includeStack: false });
+            expect(problem.detail).toBe('The requested resource could not be found.');
+            expect(problem.details).toBeUndefined();
+        });
+
+        it('should attach the error headers and the negotiated Content-Language', () => {
+            const problem = HttpResponse.problem(HttpError.methodNotAllowed(undefined, undefined, ['GET', 'HEAD']), { includeStack: false });
+            expect(getResponseHeaders(problem)).toEqual({ Allow: 'GET, HEAD' });
+            expect(JSON.stringify(problem)).not.toContain('GET, HEAD');
+
+            const unauthorized = HttpResponse.problem(HttpError.unauthorized(undefined, undefined, 'Bearer'), { locale: 'de', includeStack: false });
+            expect(getResponseHeaders(unauthorized)).toEqual({ 'WWW-Authenticate': 'Bearer', 'Content-Language': 'de' });
+
+            const limited = HttpResponse.problem(HttpError.tooManyRequests(undefined, 30), { includeStack: false });
+            expect(getResponseHeaders(limited)).toEqual({ 'Retry-After': '30' });
+        });
+    });
+
     describe('fromError()', () => {
         it('should format standard errors', () => {
             const response = HttpResponse.fromError(new Error('Crash'));
@@ -164,6 +223,23 @@ describe('HttpResponse', () => {
             expect(pagination.total_pages).toBe(10); // Math.ceil(10 / 1)
             expect(pagination.total_pages).not.toBe(Infinity);
         });
+
+        it('should format cursor pagination without totals', () => {
+            const response = HttpResponse.paginated([1, 2], { nextCursor: 'eyJpZCI6Mn0', hasMore: true, limit: 2 });
+
+            expect(response.metadata?.pagination).toEqual({
+                next_cursor: 'eyJpZCI6Mn0',
+                prev_cursor: null,
+                has_more: true,
+                limit: 2,
+            });
+            expect(HttpResponse.paginated([], { hasMore: false, total: 0 }).metadata?.pagination).toEqual({
+                next_cursor: null,
+                prev_cursor: null,
+                has_more: false,
+                total: 0,
+            });
+        });
     });
 
     describe('body exclusion for no-body status codes', () => {
@@ -174,6 +250,109 @@ describe('HttpResponse', () => {
         });
     });
 
+    describe('error masking', () => {
+        const dbError = new Error('connect ECONNREFUSED db-primary.internal:5432');
+
+        it('should not mask outside production by default', () => {
+            const response = HttpResponse.fromError(dbError);
+            expect(response.error.message).toBe('connect ECONNREFUSED db-primary.internal:5432');
+            expect(response.error.reference).toBeUndefined();
+        });
+
+        it('should mask 5xx messages in production with a stable reference', () => {
+            vi.stubEnv('NODE_ENV', 'production');
+            try {
+                const error = HttpError.fromError(dbError);
+                const response = HttpResponse.error(error);
+
+                expect(response.error.message).toBe('An unexpected error occurred on the server.');
+                expect(response.error.reference).toBe(error.reference);
+                expect(response.error.reference).toMatch(/\S{8,}/);
+                // Original message and cause remain available for logging
+                expect(error.message).toBe('connect ECONNREFUSED db-primary.internal:5432');
+                expect(error.cause).toBe(dbError);
+                expect(error.toJSON().reference).toBe(error.reference);
+            } finally {
+                vi.unstubAllEnvs();
+            }
+        });
+
+        it('should leave client errors and exposed errors untouched', () => {
+            configure({ errorMasking: { mode: 'always' } });
+
+            expect(HttpResponse.error(HttpError.notFound('User not found')).error.message).toBe('User not found');
+
+            const exposed = new HttpError(503, { message: 'Maintenance until 22:00 UTC', expose: true });
+            expect(HttpResponse.error(exposed).error.message).toBe('Maintenance until 22:00 UTC');
+        });
+
+        it('should support status classes, allowlists, custom messages and no reference', () => {
+            configure({
+                errorMasking: {
+                    mode: 'always',
+                    statusClasses: ['4xx', '5xx'],
+                    includeReference: false,
+                    isSafe: (error) => error.code === 409,
+                },
+                customMessages: { 400: 'Invalid request' },
+            });
+
+            const badRequest = HttpResponse.error(HttpError.badRequest('column "emial" does not exist'));
+            expect(badRequest.error.message).toBe('Invalid request');
+            expect(badRequest.error.reference).toBeUndefined();
+
+            expect(HttpResponse.error(HttpError.conflict('Email taken')).error.message).toBe('Email taken');
+        });
+
+        it('should mask Problem Details detail', () => {
+            configure({ errorMasking: { mode: 'always' } });
+            const error = HttpError.fromError(dbError);
+            const problem = HttpResponse.problem(error, { includeStack: false });
+
+            expect(problem.detail).toBe('An unexpected error occurred on the server.');
+            expect(problem.reference).toBe(error.reference);
+        });
+
+        it('should never mask when mode is never', () => {
+            vi.stubEnv('NODE_ENV', 'production');
+            try {
+                configure({ errorMasking: { mode: 'never' } });
+                expect(HttpResponse.fromError(dbError).error.message).toBe('connect ECONNREFUSED db-primary.internal:5432');
+            } finally {
+                vi.unstubAllEnvs();
+            }
+        });
+    });
+
+    describe('headers', () => {
+        it('should expose headers without serializing them into the body', () => {
+            const response = HttpResponse.created({ id: 42 }, undefined, '/users/42');
+
+            expect(getResponseHeaders(response)).toEqual({ Location: '/users/42' });
+            expect(JSON.parse(JSON.stringify(response))).not.toHaveProperty('Location');
+            expect(Object.keys(response)).not.toContain('headers');
+        });
+
+        it('should carry HttpError headers and derive Retry-After', () => {
+            const allowed = HttpResponse.error(HttpError.methodNotAllowed(undefined, undefined, ['GET', 'HEAD']));
+            expect(getResponseHeaders(allowed)).toEqual({ Allow: 'GET, HEAD' });
+
+            const limited = HttpResponse.error(HttpError.tooManyRequests('Wait', 30));
+            expect(getResponseHeaders(limited)).toEqual({ 'Retry-After': '30' });
+        });
+
+        it('should not override an explicit Retry-After header', () => {
+            const error = new HttpError(503, { headers: { 'retry-after': 'Wed, 21 Oct 2026 07:28:00 GMT' } });
+            expect(getResponseHeaders(HttpResponse.error(error))).toEqual({ 'retry-after': 'Wed, 21 Oct 2026 07:28:00 GMT' });
+        });
+
+        it('should keep headers when a responseTransformer is configured', () => {
+            configure({ responseTransformer: (response) => ({ data: response.data }) });
+            const response = HttpResponse.partialContent([1], undefined, 'bytes 0-0/10');
+            expect(getResponseHeaders(response)).toEqual({ 'Content-Range': 'bytes 0-0/10' });
+        });
+    });
+
     describe('type guards', () => {
         it('should correctly identify success and error responses', () => {
             const success = HttpResponse.ok();
@@ -187,6 +366,63 @@ describe('HttpResponse', () => {
         });
     });
 
+    describe('parse()', () => {
+        it('should accept envelopes produced by the library', () => {
+            const roundTrip = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+            for (const payload of [
+                HttpResponse.ok({ id: 1 }, 'Loaded'),
+                HttpResponse.paginated([1, 2], { page: 1, limit: 2, total: 4 }),
+                HttpResponse.paginated([1, 2], { nextCursor: 'abc', prevCursor: 'xyz', hasMore: true }),
+                HttpResponse.error(HttpError.tooManyRequests('Slow down', 30), { includeStack: true }),
+                HttpResponse.error(new HttpError(422, { errors: [{ path: 'email', code: 'required', message: 'Required' }] })),
+            ]) {
+                const result = HttpResponse.parse(roundTrip(payload));
+                expect(result.issues).toBeUndefined();
+                expect(result.valid).toBe(true);
+            }
+        });
+
+        it('should narrow to the response on success', () => {
+            const result = HttpResponse.parse<{ id: number }>({ success: true, status_code: 200, data: { id: 7 } });
+
+            expect(result.valid && HttpResponse.isSuccess(result.response) && result.response.data).toEqual({ id: 7 });
+        });
+
+        it('should report precise issues for malformed payloads', () => {
+            const result = HttpResponse.parse({
+                success: false,
+                status_code: 200,
+                timestamp: 'yesterday',
+                retry_after: -1,
+                error: { type: 'not_found', title: 404, errors: [{ path: 'id' }] },
+                metadata: { pagination: { page: 0, limit: 10, total: '5', has_next: false, has_prev: false } },
+            });
+
+            expect(result.valid).toBe(false);
+            expect(result.issues?.map(({ path, code }) => `${path}:${code}`)).toEqual([
+                'status_code:out_of_range',
+                'timestamp:invalid_format',
+                'metadata.pagination.page:out_of_range',
+                'metadata.pagination.total:invalid_type',
+                'metadata.pagination.total_pages:required',
+                'error.title:invalid_type',
+                'error.message:required',
+                'error.errors[0].code:required',
+                'error.errors[0].message:required',
+                'retry_after:out_of_range',
+            ]);
+            expect(result.issues?.[0].params).toEqual({ min: 400, max: 599 });
+        });
+
+        it('should reject non-object payloads and missing discriminants', () => {
+            expect(HttpResponse.parse('OK').issues).toEqual([
+                { path: '', code: 'invalid_type', message: 'Expected object, received string', params: { expected: 'object', received: 'string' } },
+            ]);
+            expect(HttpResponse.parse({ status_code: 200 }).issues?.map((issue) => issue.path)).toEqual(['success']);
+        });
+    });
+
     describe('configuration integration', () => {
         it('should apply responseTransformer when configured', () => {
             configure({
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ValidationErrorBuilder, formatFieldPath } from '../src/errors/ValidationErrorBuilder';
+import { HttpError } from '../src/errors/HttpError';
+import { HttpResponse } from '../src/responses/HttpResponse';
+import { resetConfig } from '../src/config';
+
+describe('ValidationErrorBuilder', () => {
+    beforeEach(() => {
+        resetConfig();
+    });
+
+    it('should format path segments with dot and bracket notation', () => {
+        expect(formatFieldPath(['items', 0, 'name'])).toBe('items[0].name');
+        expect(formatFieldPath([0, 'id'])).toBe('[0].id');
+        expect(formatFieldPath([])).toBe('');
+    });
+
+    it('should collect field errors', () => {
+        const builder = new ValidationErrorBuilder();
+        expect(builder.hasErrors()).toBe(false);
+
+        builder
+            .add('email', 'invalid_format', 'Email is not valid', { format: 'email' })
+            .add(['items', 1, 'quantity'], 'too_small', 'Quantity must be at least 1', { min: 1 })
+            .add('name', 'required', 'Name is required', {});
+
+        expect(builder.hasErrors()).toBe(true);
+        expect(builder.errors).toEqual([
+            { path: 'email', code: 'invalid_format', message: 'Email is not valid', params: { format: 'email' } },
+            { path: 'items[1].quantity', code: 'too_small', message: 'Quantity must be at least 1', params: { min: 1 } },
+            { path: 'name', code: 'required', message: 'Name is required' },
+        ]);
+    });
+
+    it('should build a 422 HttpError by default and 400 on request', () => {
+        const builder = new ValidationErrorBuilder().add('email', 'required', 'Email is required');
+
+        const unprocessable = builder.toHttpError();
+        expect(unprocessable.code).toBe(422);
+        expect(unprocessable.errors).toEqual(builder.errors);
+
+        const badRequest = builder.toHttpError(400, 'Invalid body');
+        expect(badRequest.code).toBe(400);
+        expect(badRequest.message).toBe('Invalid body');
+    });
+
+    it('should throw only when errors were collected', () => {
+        expect(() => new ValidationErrorBuilder().throwIfErrors()).not.toThrow();
+
+        const builder = new ValidationErrorBuilder().addAll([{ path: 'age', code: 'too_small', message: 'Too young' }]);
+        expect(() => builder.throwIfErrors()).toThrow(HttpError);
+    });
+
+    it('should serialize errors under error.errors in ErrorResponse', () => {
+        const error = new ValidationErrorBuilder().add('email', 'required', 'Email is required').toHttpError();
+        const response = HttpResponse.error(error, { includeStack: false });
+
+        expect(response.error.errors).toEqual([{ path: 'email', code: 'required', message: 'Email is required' }]);
+        expect(error.toJSON().errors).toEqual(response.error.errors);
+    });
+
+    it('should round-trip errors through Problem Details', () => {
+        const error = new ValidationErrorBuilder().add('email', 'required', 'Email is required').toHttpError(400);
+        const problem = HttpResponse.problem(error, { includeStack: false });
+
+        expect(problem.errors).toEqual(error.errors);
+        expect(HttpError.fromProblemDetails(problem).errors).toEqual(error.errors);
+    });
+});
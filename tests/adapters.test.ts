@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { fromZodError, isZodError } from '../src/adapters/zod';
+import { fromJoiError, isJoiValidationError } from '../src/adapters/joi';
+import { fromClassValidatorErrors, isClassValidatorErrors } from '../src/adapters/class-validator';
+import { HttpError } from '../src/errors/HttpError';
+
+describe('validation adapters', () => {
+    describe('zod', () => {
+        const zodError = Object.assign(new Error('validation failed'), {
+            name: 'ZodError',
+            issues: [
+                { code: 'too_small', minimum: 8, type: 'string', inclusive: true, path: ['password'], message: 'String must contain at least 8 character(s)' },
+                { code: 'invalid_type', expected: 'number', received: 'string', path: ['items', 0, 'qty'], message: 'Expected number, received string' },
+            ],
+        });
+
+        it('should detect ZodError instances', () => {
+            expect(isZodError(zodError)).toBe(true);
+            expect(isZodError(new Error('x'))).toBe(false);
+        });
+
+        it('should convert issues to field errors', () => {
+            const error = fromZodError(zodError);
+
+            expect(error).toBeInstanceOf(HttpError);
+            expect(error.code).toBe(422);
+            expect(error.errors).toEqual([
+                { path: 'password', code: 'too_small', message: 'String must contain at least 8 character(s)', params: { minimum: 8, type: 'string', inclusive: true } },
+                { path: 'items[0].qty', code: 'invalid_type', message: 'Expected number, received string', params: { expected: 'number', received: 'string' } },
+            ]);
+        });
+
+        it('should honor code and message options', () => {
+            const error = fromZodError(zodError, { code: 400, message: 'Invalid body' });
+            expect(error.code).toBe(400);
+            expect(error.message).toBe('Invalid body');
+        });
+    });
+
+    describe('joi', () => {
+        const joiError = Object.assign(new Error('"email" must be a valid email'), {
+            name: 'ValidationError',
+            isJoi: true as const,
+            details: [
+                { message: '"email" must be a valid email', path: ['email'], type: 'string.email', context: { label: 'email', key: 'email', value: 'nope', invalids: ['nope'] } },
+                { message: '"tags[1]" length must be at least 2 characters long', path: ['tags', 1], type: 'string.min', context: { limit: 2, label: 'tags[1]', key: 1, value: 'a' } },
+            ],
+        });
+
+        it('should detect Joi validation errors', () => {
+            expect(isJoiValidationError(joiError)).toBe(true);
+            expect(isJoiValidationError({ details: [] })).toBe(false);
+        });
+
+        it('should convert details to field errors without the rejected value', () => {
+            const error = fromJoiError(joiError);
+
+            expect(error.code).toBe(422);
+            expect(error.errors).toEqual([
+                { path: 'email', code: 'string.email', message: '"email" must be a valid email', params: { invalids: ['nope'] } },
+                { path: 'tags[1]', code: 'string.min', message: '"tags[1]" length must be at least 2 characters long', params: { limit: 2 } },
+            ]);
+        });
+    });
+
+    describe('class-validator', () => {
+        const errors = [
+            { property: 'email', value: 'nope', constraints: { isEmail: 'email must be an email' }, children: [] },
+            {
+                property: 'items',
+                children: [
+                    {
+                        property: '0',
+                        children: [
+                            { property: 'qty', constraints: { min: 'qty must not be less than 1', isInt: 'qty must be an integer number' } },
+                        ],
+                    },
+                ],
+            },
+        ];
+
+        it('should detect ValidationError arrays', () => {
+            expect(isClassValidatorErrors(errors)).toBe(true);
+            expect(isClassValidatorErrors([])).toBe(false);
+            expect(isClassValidatorErrors(new Error('x'))).toBe(false);
+        });
+
+        it('should flatten nested errors into one field error per constraint', () => {
+            const error = fromClassValidatorErrors(errors, { code: 400 });
+
+            expect(error.code).toBe(400);
+            expect(error.errors).toEqual([
+                { path: 'email', code: 'isEmail', message: 'email must be an email' },
+                { path: 'items[0].qty', code: 'min', message: 'qty must not be less than 1' },
+                { path: 'items[0].qty', code: 'isInt', message: 'qty must be an integer number' },
+            ]);
+        });
+    });
+});
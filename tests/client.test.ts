@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHttpClient } from '../src/client';
+import { toFetchResponse } from '../src/integrations/fetch';
+import { HttpResponse } from '../src/responses/HttpResponse';
+import { HttpError } from '../src/errors/HttpError';
+import { createResponseKit } from '../src/kit';
+import { resetConfig } from '../src/config';
+
+/**
+ * Build a fetch stub answering with the given responses in order
+ */
+function stubFetch(...responses: Response[]) {
+    const queue = [...responses];
+    return vi.fn(async (_input: string | URL | Request, _init?: RequestInit) => queue.shift() ?? new Response(null, { status: 500 }));
+}
+
+describe('createHttpClient()', () => {
+    beforeEach(() => {
+        resetConfig();
+    });
+
+    it('should unwrap the data of success envelopes', async () => {
+        const fetch = stubFetch(toFetchResponse(HttpResponse.ok({ id: 42, name: 'Ada' })));
+        const api = createHttpClient({ baseUrl: 'https://api.example.com/', headers: { Authorization: 'Bearer t' }, fetch });
+
+        await expect(api.get('/users/42', { query: { expand: 'roles', draft: undefined } })).resolves.toEqual({ id: 42, name: 'Ada' });
+
+        const [url, init] = fetch.mock.calls[0];
+        expect(url).toBe('https://api.example.com/users/42?expand=roles');
+        expect(init?.method).toBe('GET');
+        expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer t');
+    });
+
+    it('should send JSON bodies and return undefined for 204', async () => {
+        const fetch = stubFetch(toFetchResponse(HttpResponse.noContent()));
+        const api = createHttpClient({ fetch });
+
+        await expect(api.put('/users/42', { name: 'Ada' })).resolves.toBeUndefined();
+
+        const init = fetch.mock.calls[0][1];
+        expect(init?.body).toBe('{"name":"Ada"}');
+        expect((init?.headers as Record<string, string>)['Content-Type']).toBe('application/json');
+    });
+
+    it('should throw the rebuilt HttpError for non-2xx responses', async () => {
+        const fetch = stubFetch(toFetchResponse(HttpResponse.error(HttpError.conflict('Email is taken', { field: 'email' }))));
+        const api = createHttpClient({ fetch });
+
+        const error = await api.post('/users', { email: 'ada@example.com' }).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(HttpError);
+        expect(error).toMatchObject({ code: 409, message: 'Email is taken', metadata: { field: 'email' } });
+    });
+
+    it('should throw errors of the configured kit', async () => {
+        const kit = createResponseKit();
+        const fetch = stubFetch(new Response('nope', { status: 404 }));
+
+        const error = await createHttpClient({ fetch, kit }).get('/missing').catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(kit.HttpError);
+        expect((error as HttpError).type).toBe('not_found');
+    });
+
+    it('should read metadata.pagination into a typed page', async () => {
+        const fetch = stubFetch(toFetchResponse(HttpResponse.paginated([{ id: 1 }, { id: 2 }], { page: 1, limit: 2, total: 5 })));
+        const page = await createHttpClient({ fetch }).getPage<{ id: number }>('/users');
+
+        expect(page.data).toEqual([{ id: 1 }, { id: 2 }]);
+        expect(page.pagination).toEqual({ page: 1, limit: 2, total: 5, total_pages: 3, has_next: true, has_prev: false });
+
+        const notPaginated = createHttpClient({ fetch: stubFetch(toFetchResponse(HttpResponse.ok([]))) }).getPage('/users');
+        await expect(notPaginated).rejects.toThrow(TypeError);
+    });
+
+    describe('retries', () => {
+        it('should retry 503 responses after the Retry-After delay', async () => {
+            vi.useFakeTimers();
+            try {
+                const fetch = stubFetch(
+                    toFetchResponse(HttpResponse.error(HttpError.serviceUnavailable('Busy', 2))),
+                    toFetchResponse(HttpResponse.ok('ready'))
+                );
+                const result = createHttpClient({ fetch }).get('/status');
+
+                await vi.advanceTimersByTimeAsync(1_999);
+                expect(fetch).toHaveBeenCalledTimes(1);
+                await vi.advanceTimersByTimeAsync(1);
+                await expect(result).resolves.toBe('ready');
+                expect(fetch).toHaveBeenCalledTimes(2);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('should back off exponentially and give up after the retry limit', async () => {
+            const fetch = stubFetch(
+                new Response(null, { status: 502 }),
+                new Response(null, { status: 504 }),
+                new Response(null, { status: 502 })
+            );
+            const api = createHttpClient({ fetch, retry: { retries: 2, baseDelay: 1 } });
+
+            await expect(api.get('/flaky')).rejects.toMatchObject({ code: 502 });
+            expect(fetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('should not retry non-idempotent methods, other statuses or long delays', async () => {
+            const post = stubFetch(new Response(null, { status: 503 }));
+            await expect(createHttpClient({ fetch: post, retry: { baseDelay: 1 } }).post('/orders', {})).rejects.toMatchObject({ code: 503 });
+            expect(post).toHaveBeenCalledTimes(1);
+
+            const notFound = stubFetch(new Response(null, { status: 404 }));
+            await expect(createHttpClient({ fetch: notFound }).get('/x')).rejects.toMatchObject({ code: 404 });
+            expect(notFound).toHaveBeenCalledTimes(1);
+
+            const longWait = stubFetch(new Response(null, { status: 429, headers: { 'Retry-After': '3600' } }));
+            const error = await createHttpClient({ fetch: longWait }).get('/x').catch((e: HttpError) => e);
+            expect(error).toMatchObject({ code: 429, retryAfter: 3600 });
+            expect(longWait).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not retry when disabled', async () => {
+            const fetch = stubFetch(new Response(null, { status: 503 }));
+            await expect(createHttpClient({ fetch, retry: false }).get('/x')).rejects.toMatchObject({ code: 503 });
+            expect(fetch).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    runWithRequestContext,
+    getRequestContext,
+    updateRequestContext,
+    extractRequestContext,
+    requestContextMiddleware,
+} from '../src/context';
+import { HttpResponse } from '../src/responses/HttpResponse';
+import { HttpError } from '../src/errors/HttpError';
+import { configure, resetConfig } from '../src/config';
+
+const context = { requestId: 'req-1', traceId: '4bf92f3577b34da6a3ce929d0e0e4736', instance: '/users/42' };
+
+describe('request context', () => {
+    beforeEach(() => {
+        resetConfig();
+        configure({ includeTimestamp: false });
+    });
+
+    describe('storage', () => {
+        it('should expose the context inside runWithRequestContext only', async () => {
+            expect(getRequestContext()).toBeUndefined();
+
+            await runWithRequestContext(context, async () => {
+                await Promise.resolve();
+                updateRequestContext({ userId: 7 });
+                expect(getRequestContext()).toEqual({ ...context, userId: 7 });
+            });
+
+            expect(getRequestContext()).toBeUndefined();
+        });
+    });
+
+    describe('response merging', () => {
+        it('should add request_id and trace_id to success responses', () => {
+            const response = runWithRequestContext(context, () => HttpResponse.ok({ id: 1 }));
+
+            expect(response.request_id).toBe('req-1');
+            expect(response.trace_id).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+        });
+
+        it('should add the instance to error responses and Problem Details', () => {
+            const response = runWithRequestContext(context, () => HttpResponse.error(HttpError.notFound(), { includeStack: false }));
+            expect(response.error.instance).toBe('/users/42');
+            expect(response.request_id).toBe('req-1');
+
+            const problem = runWithRequestContext(context, () => HttpResponse.problem(HttpError.notFound(), { includeStack: false }));
+            expect(problem.instance).toBe('/users/42');
+            expect(problem.request_id).toBe('req-1');
+        });
+
+        it('should honor custom field names and metadata placement', () => {
+            configure({ requestContext: { fields: { requestId: 'correlation_id' }, placement: 'metadata', includeInstance: false } });
+            const response = runWithRequestContext(context, () => HttpResponse.error(HttpError.conflict(), { includeStack: false }));
+
+            expect(response.metadata).toEqual({ correlation_id: 'req-1' });
+            expect(response.request_id).toBeUndefined();
+            expect(response.error.instance).toBeUndefined();
+        });
+
+        it('should never override core fields or call-site fields', () => {
+            configure({ requestContext: { fields: { requestId: 'status_code', traceId: 'trace_id' } } });
+            const response = runWithRequestContext(context, () =>
+                HttpResponse.error(HttpError.conflict(), { includeStack: false, additionalFields: { trace_id: 'explicit' } })
+            );
+
+            expect(response.status_code).toBe(409);
+            expect(response.trace_id).toBe('explicit');
+        });
+
+        it('should be disabled with requestContext: false', () => {
+            configure({ requestContext: false });
+            const response = runWithRequestContext(context, () => HttpResponse.ok());
+            expect(response.request_id).toBeUndefined();
+        });
+    });
+
+    describe('extractRequestContext()', () => {
+        it('should read X-Request-Id and traceparent', () => {
+            expect(extractRequestContext({
+                'x-request-id': 'abc',
+                traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+            }, '/orders')).toEqual({ requestId: 'abc', traceId: '4bf92f3577b34da6a3ce929d0e0e4736', instance: '/orders' });
+        });
+
+        it('should accept fetch Headers and generate missing request ids', () => {
+            const extracted = extractRequestContext(new Headers(), undefined, { generateRequestId: () => 'generated' });
+            expect(extracted).toEqual({ requestId: 'generated' });
+
+            expect(extractRequestContext({}, undefined, { generateRequestId: false })).toEqual({});
+        });
+    });
+
+    describe('requestContextMiddleware()', () => {
+        it('should run next inside the context and echo the request id', () => {
+            const res = { setHeader: vi.fn() };
+            let seen: unknown;
+
+            requestContextMiddleware()(
+                { headers: { 'x-request-id': 'abc' }, url: '/users?page=2' },
+                res,
+                () => { seen = getRequestContext(); }
+            );
+
+            expect(seen).toEqual({ requestId: 'abc', instance: '/users' });
+            expect(res.setHeader).toHaveBeenCalledWith('X-Request-Id', 'abc');
+        });
+    });
+});
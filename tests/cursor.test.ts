@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { encodeCursor, decodeCursor } from '../src/cursor';
+import { HttpError } from '../src/errors/HttpError';
+
+describe('pagination cursors', () => {
+    const position = { createdAt: '2026-01-02T03:04:05.000Z', id: 42 };
+
+    it('should round-trip unsigned cursors as base64url JSON', () => {
+        const cursor = encodeCursor(position);
+
+        expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(decodeCursor(cursor)).toEqual(position);
+    });
+
+    it('should sign and verify cursors', () => {
+        const cursor = encodeCursor(position, { secret: 's3cret' });
+
+        expect(cursor.split('.')).toHaveLength(2);
+        expect(decodeCursor(cursor, { secret: 's3cret' })).toEqual(position);
+    });
+
+    it('should accept rotated secrets', () => {
+        const cursor = encodeCursor(position, { secret: 'old' });
+
+        expect(encodeCursor(position, { secret: ['new', 'old'] })).not.toBe(cursor);
+        expect(decodeCursor(cursor, { secret: ['new', 'old'] })).toEqual(position);
+    });
+
+    it('should reject tampered, unsigned and malformed cursors with a 400', () => {
+        const [, signature] = encodeCursor(position, { secret: 's3cret' }).split('.');
+        const forged = `${encodeCursor({ ...position, id: 1 })}.${signature}`;
+
+        for (const cursor of [forged, encodeCursor(position), 'not a cursor', 'e30.a.b']) {
+            try {
+                decodeCursor(cursor, { secret: 's3cret' });
+                expect.unreachable();
+            } catch (error) {
+                expect(error).toBeInstanceOf(HttpError);
+                expect(error).toMatchObject({ code: 400, errors: [{ path: 'cursor', code: 'invalid_format' }] });
+            }
+        }
+
+        expect(() => decodeCursor('bm90IGpzb24', { field: 'after' })).toThrow(expect.objectContaining({
+            errors: [expect.objectContaining({ path: 'after' })],
+        }));
+    });
+
+    it('should refuse values that are not JSON-serializable', () => {
+        expect(() => encodeCursor(undefined)).toThrow(TypeError);
+    });
+});
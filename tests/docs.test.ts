@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { renderErrorReference, getErrorAnchor } from '../src/docs';
+import { registerErrorDefinition, resetStatusRegistry } from '../src/registry';
+import { createResponseKit } from '../src/kit';
+import { configure, resetConfig } from '../src/config';
+
+describe('error reference docs', () => {
+    beforeEach(() => {
+        resetConfig();
+    });
+
+    afterEach(() => {
+        resetStatusRegistry();
+    });
+
+    it('should derive stable anchors from error types', () => {
+        expect(getErrorAnchor('payment_required')).toBe('payment_required');
+        expect(getErrorAnchor('Weird Type/1')).toBe('weird-type-1');
+    });
+
+    it('should render every definition as Markdown with anchors at the type', () => {
+        const markdown = renderErrorReference();
+
+        expect(markdown.startsWith('# Error Reference\n')).toBe(true);
+        expect(markdown).toContain('| 402 | [`payment_required`](#payment_required) | Payment Required |');
+        expect(markdown).toContain('## <a id="too_early"></a>425 Too Early');
+        expect(markdown).toContain('**Resolution:** Try again after a short period or contact support.');
+        expect(markdown).toContain('**Retry-After:** 60 seconds');
+    });
+
+    it('should include registered codes and custom messages', () => {
+        registerErrorDefinition(499, { type: 'client_closed_request', title: 'Client Closed Request', details: 'Closed early.' });
+        configure({ customMessages: { 404: 'Nothing to see here' } });
+
+        const markdown = renderErrorReference({ errorCodes: [499, 404] });
+
+        expect(markdown.indexOf('404 Not Found')).toBeLessThan(markdown.indexOf('499 Client Closed Request'));
+        expect(markdown).toContain('**Message:** Nothing to see here');
+        expect(markdown).toContain('_Non-standard status code._');
+        expect(markdown).not.toContain('500 Internal Server Error');
+    });
+
+    it('should render an escaped HTML fragment', () => {
+        const kit = createResponseKit({ customMessages: { 400: 'Use <b>valid</b> input' } });
+        const html = renderErrorReference({ format: 'html', errorCodes: [400, 503], kit });
+
+        expect(html).toContain('<section id="bad_request" class="error-definition">');
+        expect(html).toContain('<a href="#service_unavailable"><code>service_unavailable</code></a>');
+        expect(html).toContain('<strong>Message:</strong> Use &lt;b&gt;valid&lt;/b&gt; input');
+        expect(html).toContain('<strong>Retry-After:</strong> 60 seconds');
+    });
+
+    it('should localize definitions while keeping anchors', () => {
+        const markdown = renderErrorReference({ locale: 'de', errorCodes: [404], title: 'Fehlercodes' });
+
+        expect(markdown).toContain('# Fehlercodes');
+        expect(markdown).toContain('## <a id="not_found"></a>404 Nicht gefunden');
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { defineErrorCatalog } from '../src/errors/error-catalog';
+import { HttpError } from '../src/errors/HttpError';
+import { HttpResponse } from '../src/responses/HttpResponse';
+import { createResponseKit } from '../src/kit';
+import { resetConfig } from '../src/config';
+
+const AppErrors = defineErrorCatalog({
+    USER_EMAIL_TAKEN: {
+        status: 409,
+        message: 'The email {email} is already registered',
+        metadata: { email: 'string' },
+    },
+    PLAN_LIMIT_REACHED: {
+        status: 402,
+        message: 'Your plan allows {limit} projects',
+        metadata: { limit: 'number', plan: 'string?' },
+        docsUrl: 'https://example.com/billing',
+    },
+    UPSTREAM_UNAVAILABLE: { status: 503, message: 'The payment provider is unavailable' },
+}, { docsBaseUrl: 'https://docs.example.com/errors/' });
+
+describe('defineErrorCatalog()', () => {
+    beforeEach(() => {
+        resetConfig();
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should create throwable HttpErrors with the app code', () => {
+        const error = AppErrors.USER_EMAIL_TAKEN({ email: 'ada@example.com' });
+
+        expect(error).toBeInstanceOf(HttpError);
+        expect(error).toMatchObject({
+            code: 409,
+            type: 'conflict',
+            appCode: 'USER_EMAIL_TAKEN',
+            message: 'The email ada@example.com is already registered',
+            metadata: { email: 'ada@example.com' },
+            docsUrl: 'https://docs.example.com/errors/USER_EMAIL_TAKEN',
+        });
+        expect(() => { throw AppErrors.UPSTREAM_UNAVAILABLE(); }).toThrow('The payment provider is unavailable');
+    });
+
+    it('should expose entry information and a type guard on each factory', () => {
+        expect(AppErrors.PLAN_LIMIT_REACHED.code).toBe('PLAN_LIMIT_REACHED');
+        expect(AppErrors.PLAN_LIMIT_REACHED.status).toBe(402);
+        expect(AppErrors.PLAN_LIMIT_REACHED.docsUrl).toBe('https://example.com/billing');
+
+        expect(AppErrors.PLAN_LIMIT_REACHED.is(AppErrors.PLAN_LIMIT_REACHED({ limit: 3 }))).toBe(true);
+        expect(AppErrors.PLAN_LIMIT_REACHED.is(AppErrors.UPSTREAM_UNAVAILABLE())).toBe(false);
+        expect(AppErrors.PLAN_LIMIT_REACHED.is(new HttpError(402))).toBe(false);
+    });
+
+    it('should serialize the app code next to the HTTP type', () => {
+        const response = HttpResponse.error(AppErrors.USER_EMAIL_TAKEN({ email: 'ada@example.com' }), { includeStack: false });
+
+        expect(response.error).toMatchObject({
+            type: 'conflict',
+            code: 'USER_EMAIL_TAKEN',
+            docs_url: 'https://docs.example.com/errors/USER_EMAIL_TAKEN',
+        });
+        expect(HttpResponse.problem(AppErrors.PLAN_LIMIT_REACHED({ limit: 3 }), { includeStack: false })).toMatchObject({
+            type: 'payment_required',
+            code: 'PLAN_LIMIT_REACHED',
+            detail: 'Your plan allows 3 projects',
+        });
+    });
+
+    it('should round-trip through fromJSON()', () => {
+        const body = JSON.parse(JSON.stringify(HttpResponse.error(AppErrors.USER_EMAIL_TAKEN({ email: 'a@b.c' }))));
+        const error = HttpError.fromJSON(body);
+
+        expect(error.appCode).toBe('USER_EMAIL_TAKEN');
+        expect(error.docsUrl).toBe('https://docs.example.com/errors/USER_EMAIL_TAKEN');
+        expect(HttpError.fromProblemDetails(HttpResponse.problem(AppErrors.UPSTREAM_UNAVAILABLE())).appCode).toBe('UPSTREAM_UNAVAILABLE');
+    });
+
+    it('should keep catalog messages unmasked in production', () => {
+        vi.stubEnv('NODE_ENV', 'production');
+        const response = HttpResponse.error(AppErrors.UPSTREAM_UNAVAILABLE());
+
+        expect(response.error.message).toBe('The payment provider is unavailable');
+        expect(response.error.reference).toBeUndefined();
+    });
+
+    it('should support message overrides, causes and kits', () => {
+        const kit = createResponseKit();
+        const KitErrors = defineErrorCatalog({ RATE_LIMITED: { status: 429, message: 'Slow down' } }, { kit });
+        const cause = new Error('quota exceeded');
+
+        const error = KitErrors.RATE_LIMITED(undefined, { message: 'Try again in {seconds}s', retryAfter: 5, cause });
+        expect(error).toBeInstanceOf(kit.HttpError);
+        expect(error).toMatchObject({ message: 'Try again in {seconds}s', retryAfter: 5, cause });
+    });
+
+    it('should reject entries with non-error statuses', () => {
+        expect(() => defineErrorCatalog({ OK: { status: 200, message: 'fine' } })).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { serializeErrorCauses } from '../src/errors/error-causes';
+import { HttpResponse } from '../src/responses/HttpResponse';
+import { HttpError } from '../src/errors/HttpError';
+import { configure, resetConfig } from '../src/config';
+
+const withCause = (message: string, cause?: unknown, code?: string) =>
+    Object.assign(new Error(message), { cause }, code ? { code } : {});
+
+describe('error causes', () => {
+    beforeEach(() => {
+        resetConfig();
+    });
+
+    describe('serializeErrorCauses()', () => {
+        it('should walk the cause chain with names, messages and codes', () => {
+            const root = withCause('connect ECONNREFUSED 10.0.0.5:5432', undefined, 'ECONNREFUSED');
+            const error = withCause('Query failed', root);
+
+            expect(serializeErrorCauses(error)).toEqual([
+                { name: 'Error', message: 'Query failed' },
+                { name: 'Error', message: 'connect ECONNREFUSED 10.0.0.5:5432', code: 'ECONNREFUSED' },
+            ]);
+        });
+
+        it('should expand AggregateError children with their own causes', () => {
+            const aggregate = new AggregateError(
+                [withCause('Primary down', withCause('timeout')), new TypeError('bad replica')],
+                'All replicas failed'
+            );
+
+            expect(serializeErrorCauses(aggregate)).toEqual([
+                {
+                    name: 'AggregateError',
+                    message: 'All replicas failed',
+                    errors: [
+                        { name: 'Error', message: 'Primary down', causes: [{ name: 'Error', message: 'timeout' }] },
+                        { name: 'TypeError', message: 'bad replica' },
+                    ],
+                },
+            ]);
+        });
+
+        it('should stop at cycles and at the depth limit', () => {
+            const a = withCause('a');
+            const b = withCause('b', a);
+            (a as { cause?: unknown }).cause = b;
+
+            expect(serializeErrorCauses(a).map((cause) => cause.message)).toEqual(['a', 'b']);
+
+            let deep: Error | undefined;
+            for (let i = 0; i < 20; i++) {
+                deep = withCause(`level ${i}`, deep);
+            }
+            expect(serializeErrorCauses(deep)).toHaveLength(5);
+            expect(serializeErrorCauses(deep, { maxDepth: 2 })).toHaveLength(2);
+        });
+
+        it('should describe non-Error causes', () => {
+            expect(serializeErrorCauses('socket hang up')).toEqual([{ name: 'string', message: 'socket hang up' }]);
+        });
+    });
+
+    describe('HttpResponse.error()', () => {
+        it('should include the cause chain alongside the stack trace', () => {
+            const error = HttpError.fromError(withCause('Query failed', withCause('password authentication failed for user "app"', undefined, '28P01')));
+            const response = HttpResponse.error(error, { includeStack: true });
+
+            expect(response.error.causes).toHaveLength(2);
+            expect(response.error.causes?.[1]).toMatchObject({ name: 'Error', code: '28P01' });
+            expect(response.error.causes?.[1].stack).toContain('Error:');
+        });
+
+        it('should omit the cause chain when stack traces are excluded', () => {
+            const error = HttpError.fromError(withCause('Query failed', withCause('timeout')));
+
+            expect(HttpResponse.error(error, { includeStack: false }).error.causes).toBeUndefined();
+            expect(HttpResponse.problem(error, { includeStack: false }).causes).toBeUndefined();
+        });
+
+        it('should redact cause messages and honour maxCauseDepth', () => {
+            configure({ maxCauseDepth: 1 });
+            const error = HttpError.fromError(withCause('Upstream rejected Bearer abc.def', withCause('timeout')));
+
+            const causes = HttpResponse.problem(error, { includeStack: true }).causes;
+            expect(causes).toEqual([expect.objectContaining({ message: 'Upstream rejected [REDACTED]' })]);
+        });
+    });
+
+    describe('HttpError.toJSON()', () => {
+        it('should serialize causes without stack traces in development', () => {
+            configure({ isDevelopment: true });
+            const error = new HttpError(502, { cause: withCause('Bad gateway', withCause('ECONNRESET')) });
+
+            expect(error.toJSON().causes).toEqual([
+                { name: 'Error', message: 'Bad gateway' },
+                { name: 'Error', message: 'ECONNRESET' },
+            ]);
+            expect(new HttpError(404).toJSON().causes).toBeUndefined();
+        });
+
+        it('should omit causes outside development', () => {
+            const error = HttpError.fromError(withCause('Query failed', withCause('relation "users" does not exist at db-prod-01.internal:5432')));
+            const json = JSON.stringify(error);
+
+            expect(error.toJSON().causes).toBeUndefined();
+            expect(json).not.toContain('db-prod-01');
+        });
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { errorHandler, notFoundHandler, asyncHandler, fromExpressError } from '../src/integrations/express';
+import type { ExpressResponse } from '../src/integrations/express';
+import { HttpError } from '../src/errors/HttpError';
+import { configure, resetConfig } from '../src/config';
+
+function mockResponse(headersSent = false) {
+    const res = {
+        headersSent,
+        statusCode: 200,
+        headers: {} as Record<string, unknown>,
+        body: undefined as unknown,
+        status(code: number) {
+            res.statusCode = code;
+            return res as unknown as ExpressResponse;
+        },
+        setHeader(name: string, value: unknown) {
+            res.headers[name] = value;
+        },
+        json(body: unknown) {
+            res.body = body;
+        },
+    };
+    return res;
+}
+
+const req = { method: 'GET', url: '/users/1', originalUrl: '/api/users/1' };
+
+describe('Express integration', () => {
+    beforeEach(() => {
+        resetConfig();
+    });
+
+    describe('errorHandler()', () => {
+        it('should send a formatted ErrorResponse for an HttpError', () => {
+            const res = mockResponse();
+            errorHandler({ includeStack: false })(HttpError.notFound('User not found'), req, res, vi.fn());
+
+            expect(res.statusCode).toBe(404);
+            expect(res.body).toMatchObject({
+                success: false,
+                status_code: 404,
+                error: { type: 'not_found', message: 'User not found' },
+            });
+        });
+
+        it('should convert unknown errors and set Retry-After', () => {
+            const res = mockResponse();
+            errorHandler({ fallbackCode: 503, includeStack: false })(new Error('Down'), req, res, vi.fn());
+
+            expect(res.statusCode).toBe(503);
+            expect(res.headers['Retry-After']).toBe('60');
+        });
+
+        it('should keep the status of Express middleware errors and honour expose', () => {
+            configure({ errorMasking: { mode: 'always', statusClasses: ['4xx', '5xx'] } });
+            const bodyError = Object.assign(new SyntaxError('Unexpected token } in JSON at position 10'), {
+                status: 400,
+                statusCode: 400,
+                expose: true,
+                type: 'entity.parse.failed',
+            });
+
+            const res = mockResponse();
+            errorHandler({ includeStack: false })(bodyError, req, res, vi.fn());
+
+            expect(res.statusCode).toBe(400);
+            expect(res.body).toMatchObject({
+                error: { type: 'bad_request', message: 'Unexpected token } in JSON at position 10' },
+            });
+
+            const hidden = fromExpressError(Object.assign(new Error('pool exhausted'), { statusCode: 503, expose: false }));
+            expect(hidden.code).toBe(503);
+            expect(hidden.expose).toBe(false);
+            expect(fromExpressError(Object.assign(new Error('odd'), { status: 302 })).code).toBe(500);
+        });
+
+        it('should set headers carried by the error', () => {
+            const res = mockResponse();
+            errorHandler()(HttpError.methodNotAllowed(undefined, undefined, ['GET']), req, res, vi.fn());
+            expect(res.headers.Allow).toBe('GET');
+        });
+
+        it('should call onError with the converted error', () => {
+            const onError = vi.fn();
+            errorHandler({ onError })('boom', req, mockResponse(), vi.fn());
+
+            expect(onError).toHaveBeenCalledOnce();
+            expect(onError.mock.calls[0][0]).toBeInstanceOf(HttpError);
+            expect(onError.mock.calls[0][1]).toBe(req);
+        });
+
+        it('should delegate to next when headers were already sent', () => {
+            const res = mockResponse(true);
+            const next = vi.fn();
+            const err = new Error('late');
+            errorHandler()(err, req, res, next);
+
+            expect(next).toHaveBeenCalledWith(err);
+            expect(res.body).toBeUndefined();
+        });
+    });
+
+    describe('notFoundHandler()', () => {
+        it('should forward a 404 HttpError describing the route', () => {
+            const next = vi.fn();
+            notFoundHandler()(req, mockResponse(), next);
+
+            const error = next.mock.calls[0][0] as HttpError;
+            expect(error.code).toBe(404);
+            expect(error.message).toBe('Cannot GET /api/users/1');
+        });
+    });
+
+    describe('asyncHandler()', () => {
+        it('should forward rejected promises to next', async () => {
+            const next = vi.fn();
+            const error = HttpError.conflict();
+            asyncHandler(async () => {
+                throw error;
+            })(req, mockResponse(), next);
+
+            await vi.waitFor(() => expect(next).toHaveBeenCalledWith(error));
+        });
+
+        it('should forward synchronous throws to next', async () => {
+            const next = vi.fn();
+            asyncHandler(() => {
+                throw new Error('sync');
+            })(req, mockResponse(), next);
+
+            await vi.waitFor(() => expect(next).toHaveBeenCalledOnce());
+        });
+    });
+});
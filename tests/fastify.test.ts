@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { httpResponseKit, fromFastifyError } from '../src/integrations/fastify';
+import type { FastifyReplyLike, FastifyRequestLike, HttpResponseReplyDecorators } from '../src/integrations/fastify';
+import { HttpError } from '../src/errors/HttpError';
+import { resetConfig } from '../src/config';
+
+function fastifyError(message: string, props: Record<string, unknown>): Error {
+    return Object.assign(new Error(message), props);
+}
+
+function mockReply() {
+    const reply = {
+        statusCode: 200,
+        headers: {} as Record<string, string>,
+        payload: undefined as unknown,
+        code(statusCode: number) {
+            reply.statusCode = statusCode;
+            return reply as FastifyReplyLike;
+        },
+        header(name: string, value: string) {
+            reply.headers[name] = value;
+            return reply as FastifyReplyLike;
+        },
+        send(payload?: unknown) {
+            reply.payload = payload;
+            return reply as FastifyReplyLike;
+        },
+    };
+    return reply;
+}
+
+function mockFastify() {
+    const instance = {
+        decorators: {} as Record<string, Function>,
+        errorHandler: undefined as undefined | ((error: unknown, request: FastifyRequestLike, reply: FastifyReplyLike) => unknown),
+        decorateReply(name: string, value: Function) {
+            instance.decorators[name] = value;
+        },
+        setErrorHandler(handler: NonNullable<typeof instance.errorHandler>) {
+            instance.errorHandler = handler;
+        },
+    };
+    return instance;
+}
+
+const request = { method: 'POST', url: '/users' };
+
+describe('Fastify integration', () => {
+    beforeEach(() => {
+        resetConfig();
+    });
+
+    describe('fromFastifyError()', () => {
+        it('should map validation errors to 400 with field errors', () => {
+            const validation = [
+                { instancePath: '/email', keyword: 'format', message: 'must match format "email"', params: { format: 'email' } },
+                { instancePath: '/items/0', keyword: 'required', message: "must have required property 'sku'", params: { missingProperty: 'sku' } },
+                { instancePath: '/tags/a~1b', keyword: 'type', message: 'must be string', params: { type: 'string' } },
+            ];
+            const error = fromFastifyError(fastifyError('body/email must match format "email"', {
+                code: 'FST_ERR_VALIDATION',
+                statusCode: 400,
+                validation,
+                validationContext: 'body',
+            }));
+
+            expect(error.code).toBe(400);
+            expect(error.message).toBe('body/email must match format "email"');
+            expect(error.metadata).toEqual({ validation_context: 'body' });
+            expect(error.errors).toEqual([
+                { path: 'email', code: 'format', message: 'must match format "email"', params: { format: 'email' } },
+                { path: 'items[0].sku', code: 'required', message: "must have required property 'sku'", params: { missingProperty: 'sku' } },
+                { path: 'tags.a/b', code: 'type', message: 'must be string', params: { type: 'string' } },
+            ]);
+        });
+
+        it('should map content-type errors to 415 and 413', () => {
+            expect(fromFastifyError(fastifyError('Unsupported Media Type', { code: 'FST_ERR_CTP_INVALID_MEDIA_TYPE' })).code).toBe(415);
+            expect(fromFastifyError(fastifyError('Request body is too large', { code: 'FST_ERR_CTP_BODY_TOO_LARGE' })).code).toBe(413);
+        });
+
+        it('should keep the statusCode of other Fastify errors', () => {
+            expect(fromFastifyError(fastifyError('Not Acceptable', { statusCode: 406 })).code).toBe(406);
+        });
+
+        it('should fall back to HttpError.fromError otherwise', () => {
+            const httpError = HttpError.conflict();
+            expect(fromFastifyError(httpError)).toBe(httpError);
+            expect(fromFastifyError(new Error('boom')).code).toBe(500);
+            expect(fromFastifyError('boom', 502).code).toBe(502);
+        });
+    });
+
+    describe('httpResponseKit plugin', () => {
+        it('should skip encapsulation like fastify-plugin', () => {
+            expect((httpResponseKit as unknown as Record<symbol, unknown>)[Symbol.for('skip-override')]).toBe(true);
+        });
+
+        it('should register an error handler sending ErrorResponse', () => {
+            const fastify = mockFastify();
+            const done = vi.fn();
+            httpResponseKit(fastify, { includeStack: false }, done);
+            expect(done).toHaveBeenCalledOnce();
+
+            const reply = mockReply();
+            fastify.errorHandler!(HttpError.tooManyRequests('Slow down', 30), request, reply);
+
+            expect(reply.statusCode).toBe(429);
+            expect(reply.headers['Retry-After']).toBe('30');
+            expect(reply.payload).toMatchObject({
+                success: false,
+                status_code: 429,
+                error: { type: 'too_many_requests', message: 'Slow down' },
+            });
+        });
+
+        it('should add ok, created and paginated reply decorators', () => {
+            const fastify = mockFastify();
+            httpResponseKit(fastify, {}, vi.fn());
+
+            const reply = mockReply();
+            fastify.decorators.created.call(reply, { id: 1 });
+            expect(reply.statusCode).toBe(201);
+            expect(reply.payload).toMatchObject({ success: true, status_code: 201, data: { id: 1 } });
+
+            fastify.decorators.paginated.call(reply, [1, 2], { page: 1, limit: 2, total: 4 });
+            expect(reply.statusCode).toBe(200);
+            expect(reply.payload).toMatchObject({ metadata: { pagination: { total_pages: 2, has_next: true } } });
+
+            expect(fastify.decorators.ok).toBeTypeOf('function');
+        });
+
+        it('should accept cursor pagination in reply.paginated()', () => {
+            const fastify = mockFastify();
+            httpResponseKit(fastify, {}, vi.fn());
+
+            const reply = mockReply();
+            const paginated = fastify.decorators.paginated as HttpResponseReplyDecorators['paginated'];
+            paginated.call(reply, [1, 2], { nextCursor: 'abc', hasMore: true, limit: 2 });
+
+            expect(reply.statusCode).toBe(200);
+            expect(reply.payload).toMatchObject({ metadata: { pagination: { next_cursor: 'abc', has_more: true, limit: 2 } } });
+        });
+
+        it('should not decorate the reply when disabled', () => {
+            const fastify = mockFastify();
+            httpResponseKit(fastify, { decorateReply: false }, vi.fn());
+            expect(fastify.decorators).toEqual({});
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { toFetchResponse, errorToFetchResponse } from '../src/integrations/fetch';
+import { honoErrorHandler, honoNotFoundHandler } from '../src/integrations/hono';
+import { HttpResponse } from '../src/responses/HttpResponse';
+import { HttpError } from '../src/errors/HttpError';
+import { configure, resetConfig } from '../src/config';
+
+/** Same shape as Hono's `HTTPException` */
+class HTTPException extends Error {
+    constructor(readonly status: number, options: { message?: string } = {}) {
+        super(options.message);
+    }
+}
+
+describe('Fetch integration', () => {
+    beforeEach(() => {
+        resetConfig();
+    });
+
+    describe('toFetchResponse()', () => {
+        it('should build a JSON Response with the envelope status', async () => {
+            const response = toFetchResponse(HttpResponse.created({ id: 1 }));
+
+            expect(response).toBeInstanceOf(Response);
+            expect(response.status).toBe(201);
+            expect(response.headers.get('Content-Type')).toBe('application/json');
+            expect(await response.json()).toMatchObject({ success: true, data: { id: 1 } });
+        });
+
+        it('should send no body for 204, 205 and 304', async () => {
+            for (const statusCode of [204, 205, 304]) {
+                const response = toFetchResponse(HttpResponse.success({ statusCode }));
+                expect(response.status).toBe(statusCode);
+                expect(response.body).toBeNull();
+                expect(response.headers.has('Content-Type')).toBe(false);
+            }
+        });
+
+        it('should set Retry-After for 429 and 503 errors', () => {
+            const tooMany = toFetchResponse(HttpResponse.error(HttpError.tooManyRequests('Wait', 30)));
+            expect(tooMany.headers.get('Retry-After')).toBe('30');
+
+            const unavailable = toFetchResponse(HttpResponse.error(HttpError.serviceUnavailable()));
+            expect(unavailable.status).toBe(503);
+            expect(unavailable.headers.get('Retry-After')).toBe('60');
+        });
+
+        it('should serve Problem Details as application/problem+json', async () => {
+            const problem = HttpResponse.problem(HttpError.notFound(), { includeStack: false });
+            const response = toFetchResponse(problem);
+
+            expect(response.status).toBe(404);
+            expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+            expect(await response.json()).toMatchObject({ type: 'not_found', status: 404 });
+        });
+
+        it('should set headers carried by the response', () => {
+            const response = toFetchResponse(HttpResponse.created({ id: 1 }, undefined, '/users/1'));
+            expect(response.headers.get('Location')).toBe('/users/1');
+        });
+
+        it('should merge custom headers', () => {
+            const response = toFetchResponse(HttpResponse.ok(), { headers: { 'Cache-Control': 'no-store' } });
+            expect(response.headers.get('Cache-Control')).toBe('no-store');
+        });
+    });
+
+    describe('errorToFetchResponse()', () => {
+        it('should convert unknown errors using the fallback code', async () => {
+            const response = errorToFetchResponse(new Error('Upstream down'), { fallbackCode: 502, includeStack: false });
+            expect(response.status).toBe(502);
+            expect(await response.json()).toMatchObject({ error: { message: 'Upstream down' } });
+        });
+
+        it('should keep the status carried by framework errors', async () => {
+            const response = errorToFetchResponse(new HTTPException(413, { message: 'Body too large' }), { includeStack: false });
+            expect(response.status).toBe(413);
+            expect(await response.json()).toMatchObject({ error: { type: 'payload_too_large', message: 'Body too large' } });
+        });
+    });
+
+    describe('Hono handlers', () => {
+        const c = { req: { method: 'GET', url: 'https://example.com/users/1?x=1' } };
+
+        it('should format errors in onError', async () => {
+            const onError = vi.fn();
+            const response = honoErrorHandler({ onError, includeStack: false })(HttpError.forbidden(), c);
+
+            expect(response.status).toBe(403);
+            expect(onError).toHaveBeenCalledOnce();
+            expect(await response.json()).toMatchObject({ error: { type: 'forbidden' } });
+        });
+
+        it('should keep the status of a thrown HTTPException', async () => {
+            configure({ errorMasking: { mode: 'always' } });
+            const onError = vi.fn();
+            const response = honoErrorHandler({ onError, includeStack: false })(new HTTPException(401, { message: 'Unauthorized' }), c);
+
+            expect(response.status).toBe(401);
+            expect(onError.mock.calls[0][0]).toMatchObject({ code: 401, expose: false });
+            expect(await response.json()).toMatchObject({ status_code: 401, error: { type: 'unauthorized', message: 'Unauthorized' } });
+
+            const exposed = Object.assign(new HTTPException(503, { message: 'Maintenance until 2 pm' }), { expose: true });
+            const masked = new HTTPException(502, { message: 'upstream db-prod-01 refused' });
+
+            expect(await honoErrorHandler({ includeStack: false })(exposed, c).json()).toMatchObject({ error: { message: 'Maintenance until 2 pm' } });
+            expect(await honoErrorHandler({ includeStack: false })(masked, c).json()).not.toMatchObject({ error: { message: 'upstream db-prod-01 refused' } });
+        });
+
+        it('should format unmatched routes as 404', async () => {
+            const response = honoNotFoundHandler(undefined, { includeStack: false })(c);
+            expect(response.status).toBe(404);
+            expect(await response.json()).toMatchObject({ error: { message: 'Cannot GET /users/1' } });
+        });
+    });
+});
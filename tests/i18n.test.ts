@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Translator, BuiltInLocales, parseAcceptLanguage, localizeErrorDefinition } from '../src/i18n';
+import { runWithRequestContext, extractRequestContext } from '../src/context';
+import { HttpResponse } from '../src/responses/HttpResponse';
+import { HttpError } from '../src/errors/HttpError';
+import { HttpErrorDefinitions } from '../src/constants/error-definitions';
+import { getResponseHeaders } from '../src/responses/response-headers';
+import { defineErrorCatalog } from '../src/errors/error-catalog';
+import { configure, resetConfig } from '../src/config';
+
+describe('i18n', () => {
+    beforeEach(() => {
+        resetConfig();
+    });
+
+    describe('parseAcceptLanguage()', () => {
+        it('should order tags by quality and drop wildcards', () => {
+            expect(parseAcceptLanguage('fr-CH, fr;q=0.9, en;q=0.8, *;q=0.5')).toEqual(['fr-CH', 'fr', 'en']);
+            expect(parseAcceptLanguage('en;q=0.5, de')).toEqual(['de', 'en']);
+            expect(parseAcceptLanguage('it;q=0, es')).toEqual(['es']);
+            expect(parseAcceptLanguage('it-CH')).toEqual(['it-CH']);
+        });
+    });
+
+    describe('Translator', () => {
+        it('should fall back from a regional tag to its language and the default locale', () => {
+            const translator = new Translator('it-CH');
+
+            expect(translator.locale).toBe('it');
+            expect(translator.chain).toEqual(['it-ch', 'it', 'en']);
+            expect(translator.lookup('titles', 404)).toBe('Non trovato');
+        });
+
+        it('should pick the first available language of an Accept-Language list', () => {
+            const translator = new Translator('ja-JP, ja;q=0.9, de;q=0.8');
+
+            expect(translator.locale).toBe('de');
+            expect(translator.lookup('titles', 500)).toBe('Interner Serverfehler');
+        });
+
+        it('should use the default locale when nothing matches', () => {
+            const translator = new Translator('ja');
+
+            expect(translator.locale).toBe('en');
+            expect(translator.lookup('titles', 404)).toBeUndefined();
+        });
+
+        it('should prefer configured bundles and fall back to built-in ones', () => {
+            const translator = new Translator('de-CH', {
+                locales: { 'de-CH': { titles: { 404: 'Nöd gfunde' } } },
+            });
+
+            expect(translator.locale).toBe('de-CH');
+            expect(translator.lookup('titles', 404)).toBe('Nöd gfunde');
+            expect(translator.lookup('titles', 403)).toBe('Verboten');
+        });
+
+        it('should skip built-in bundles when disabled', () => {
+            expect(new Translator('fr', { builtInLocales: false }).lookup('titles', 404)).toBeUndefined();
+        });
+    });
+
+    it('should bundle titles and details for every built-in definition', () => {
+        const codes = Object.keys(HttpErrorDefinitions).sort();
+
+        for (const bundle of Object.values(BuiltInLocales)) {
+            expect(Object.keys(bundle.titles ?? {}).sort()).toEqual(codes);
+            expect(Object.keys(bundle.details ?? {}).sort()).toEqual(codes);
+        }
+    });
+
+    it('should localize error definitions', () => {
+        expect(localizeErrorDefinition(503, 'es-MX')).toMatchObject({
+            type: 'service_unavailable',
+            title: 'Servicio no disponible',
+            resolution: 'Vuelva a intentarlo en unos momentos o contacte con soporte.',
+        });
+    });
+
+    describe('HttpResponse', () => {
+        it('should localize titles, details and default messages with an explicit locale', () => {
+            const response = HttpResponse.error(new HttpError(404), { locale: 'fr-CA', includeStack: false });
+
+            expect(response.error).toMatchObject({
+                type: 'not_found',
+                title: 'Introuvable',
+                message: 'La ressource demandée est introuvable.',
+                details: 'La ressource demandée est introuvable.',
+            });
+            expect(getResponseHeaders(response)).toEqual({ 'Content-Language': 'fr' });
+        });
+
+        it('should keep English output without a requested locale', () => {
+            const response = HttpResponse.error(new HttpError(404), { includeStack: false });
+
+            expect(response.error.title).toBe('Not Found');
+            expect(getResponseHeaders(response)).toEqual({});
+        });
+
+        it('should keep messages without a translation', () => {
+            const response = HttpResponse.error(HttpError.notFound('User 42 not found'), { locale: 'de', includeStack: false });
+
+            expect(response.error.title).toBe('Nicht gefunden');
+            expect(response.error.message).toBe('User 42 not found');
+        });
+
+        it('should take the locale from the request context', () => {
+            const context = extractRequestContext({ 'accept-language': 'it-CH,it;q=0.9' }, '/users/1');
+            const response = runWithRequestContext(context, () =>
+                HttpResponse.problem(new HttpError(409), { includeStack: false })
+            );
+
+            expect(context.locale).toBe('it-CH,it;q=0.9');
+            expect(response).toMatchObject({ title: 'Conflitto', detail: 'La richiesta è in conflitto con lo stato attuale della risorsa.' });
+        });
+
+        it('should translate message templates and custom messages with their parameters', () => {
+            configure({
+                customMessages: { 404: '{resource} not found' },
+                i18n: {
+                    locales: {
+                        de: {
+                            customMessages: { 404: '{resource} wurde nicht gefunden' },
+                            messages: { 'Quota of {limit} exceeded': 'Kontingent von {limit} überschritten' },
+                        },
+                    },
+                },
+            });
+
+            const custom = HttpResponse.error(new HttpError(404, { metadata: { resource: 'Benutzer' } }), { locale: 'de' });
+            const template = HttpResponse.error(HttpError.tooManyRequests('Quota of {limit} exceeded', undefined, { limit: 100 }), { locale: 'de' });
+
+            expect(custom.error.message).toBe('Benutzer wurde nicht gefunden');
+            expect(template.error.message).toBe('Kontingent von 100 überschritten');
+        });
+
+        it('should translate catalog errors by application code', () => {
+            const AppErrors = defineErrorCatalog({
+                USER_EMAIL_TAKEN: { status: 409, message: 'The email {email} is already registered', metadata: { email: 'string' } },
+            });
+            configure({
+                i18n: { locales: { es: { messages: { USER_EMAIL_TAKEN: 'El correo {email} ya está registrado' } } } },
+            });
+
+            const response = HttpResponse.error(AppErrors.USER_EMAIL_TAKEN({ email: 'ada@example.com' }), { locale: 'es' });
+
+            expect(response.error.message).toBe('El correo ada@example.com ya está registrado');
+        });
+
+        it('should keep per-call message overrides of catalog errors', () => {
+            const AppErrors = defineErrorCatalog({
+                USER_EMAIL_TAKEN: { status: 409, message: 'The email {email} is already registered', metadata: { email: 'string' } },
+                PLAN_LIMIT_REACHED: { status: 402, message: 'Upgrade your plan' },
+            });
+            configure({
+                i18n: {
+                    locales: {
+                        it: { messages: { USER_EMAIL_TAKEN: "L'email {email} è già registrata", PLAN_LIMIT_REACHED: 'Aggiorna il tuo piano' } },
+                    },
+                },
+            });
+
+            const overridden = AppErrors.USER_EMAIL_TAKEN({ email: 'ada@example.com' }, { message: 'Use your work address instead' });
+
+            expect(HttpResponse.error(overridden, { locale: 'it' }).error.message).toBe('Use your work address instead');
+            expect(HttpResponse.problem(overridden, { locale: 'it' }).detail).toBe('Use your work address instead');
+            expect(HttpResponse.error(AppErrors.PLAN_LIMIT_REACHED(), { locale: 'it' }).error.message).toBe('Aggiorna il tuo piano');
+        });
+
+        it('should localize masked messages', () => {
+            configure({ errorMasking: { mode: 'always' } });
+
+            const response = HttpResponse.error(HttpError.internalServerError('db password leaked'), { locale: 'de' });
+
+            expect(response.error.message).toBe('Auf dem Server ist ein unerwarteter Fehler aufgetreten.');
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createResponseKit, defaultResponseKit } from '../src/kit';
+import { HttpError } from '../src/errors/HttpError';
+import { HttpResponse } from '../src/responses/HttpResponse';
+import { configure, resetConfig } from '../src/config';
+import { errorHandler } from '../src/integrations/express';
+
+describe('createResponseKit()', () => {
+    beforeEach(() => {
+        resetConfig();
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-02-28T12:00:00.000Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should isolate custom messages from the global configuration', () => {
+        configure({ customMessages: { 404: 'Global not found' } });
+        const kit = createResponseKit({ customMessages: { 404: 'Kit not found' } });
+
+        expect(kit.HttpError.notFound().message).toBe('Kit not found');
+        expect(new kit.HttpError(404).message).toBe('Kit not found');
+        expect(HttpError.notFound().message).toBe('Global not found');
+    });
+
+    it('should isolate formatting options between kits', () => {
+        const first = createResponseKit({ includeTimestamp: false });
+        const second = createResponseKit({
+            responseTransformer: (response) => ({ ...response, app: 'second' }),
+        });
+
+        expect(first.HttpResponse.ok().timestamp).toBeUndefined();
+        expect(second.HttpResponse.ok().timestamp).toBe('2026-02-28T12:00:00.000Z');
+        expect(second.HttpResponse.ok().app).toBe('second');
+        expect(HttpResponse.ok().app).toBeUndefined();
+    });
+
+    it('should produce errors that are still HttpError instances', () => {
+        const kit = createResponseKit();
+        const error = kit.HttpError.conflict();
+
+        expect(error).toBeInstanceOf(HttpError);
+        expect(HttpError.isHttpError(error)).toBe(true);
+        expect(error.name).toBe('HttpError');
+    });
+
+    it('should convert unknown errors with the kit configuration', () => {
+        const kit = createResponseKit({ customMessages: { 502: 'Upstream unavailable' }, includeTimestamp: false });
+        const response = kit.HttpResponse.fromError('boom', { fallbackCode: 502, includeStack: false });
+
+        expect(response.status_code).toBe(502);
+        expect(response.error.message).toBe('boom');
+        expect(response.timestamp).toBeUndefined();
+    });
+
+    it('should configure and reset each kit independently', () => {
+        const kit = createResponseKit({ isDevelopment: true });
+        kit.configure({ customMessages: { 400: 'Kit bad request' } });
+
+        expect(kit.isDevelopment()).toBe(true);
+        expect(kit.HttpError.badRequest().message).toBe('Kit bad request');
+        expect(HttpError.badRequest().message).toBe('The request cannot be processed due to invalid syntax or missing parameters.');
+
+        kit.resetConfig();
+        expect(kit.getConfig().isDevelopment).toBe(true);
+        expect(kit.getConfig().customMessages).toEqual({});
+    });
+
+    it('should keep static methods working when called detached', async () => {
+        const error = await Promise.reject(new Error('db down')).catch(HttpError.fromError);
+        const { ok, fromError } = HttpResponse;
+        const { notFound } = HttpError;
+
+        expect(error).toBeInstanceOf(HttpError);
+        expect(error.message).toBe('db down');
+        expect(notFound('Missing').code).toBe(404);
+        expect(ok({ id: 1 }).data).toEqual({ id: 1 });
+        expect(fromError('boom', { includeStack: false }).status_code).toBe(500);
+    });
+
+    it('should expose the global configuration as the default kit', () => {
+        configure({ includeTimestamp: false });
+        expect(defaultResponseKit.HttpResponse).toBe(HttpResponse);
+        expect(defaultResponseKit.getConfig().includeTimestamp).toBe(false);
+    });
+
+    it('should be usable by framework adapters', () => {
+        const kit = createResponseKit({ includeTimestamp: false });
+        const res = { headersSent: false, status: vi.fn(), setHeader: vi.fn(), json: vi.fn() };
+        res.status.mockReturnValue(res);
+
+        errorHandler({ kit, includeStack: false })(new Error('boom'), { method: 'GET', url: '/' }, res, vi.fn());
+
+        expect(res.json.mock.calls[0][0]).toEqual({
+            success: false,
+            status_code: 500,
+            error: { type: 'internal_server_error', title: 'Internal Server Error', message: 'boom', details: 'An unexpected error occurred on the server.' },
+        });
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { formatMessage } from '../src/errors/message-template';
+import { HttpError } from '../src/errors/HttpError';
+import { configure, resetConfig } from '../src/config';
+
+describe('message templates', () => {
+    beforeEach(() => {
+        resetConfig();
+    });
+
+    describe('formatMessage()', () => {
+        it('should fill placeholders, including dotted paths', () => {
+            expect(formatMessage('{resource} with id {id} was not found', { resource: 'User', id: 42 }))
+                .toBe('User with id 42 was not found');
+            expect(formatMessage('Order {order.id} by {order.customer.name}', { order: { id: 7, customer: { name: 'Ada' } } }))
+                .toBe('Order 7 by Ada');
+        });
+
+        it('should use inline fallbacks and keep unresolved placeholders', () => {
+            expect(formatMessage('{resource|Resource} not found', {})).toBe('Resource not found');
+            expect(formatMessage('{resource} not found', { resource: null })).toBe('{resource} not found');
+        });
+
+        it('should escape braces and never re-interpolate values', () => {
+            expect(formatMessage('Use {{id}} for {name}', { name: '{id}', id: 1 })).toBe('Use {id} for {id}');
+            expect(formatMessage('Invalid JSON: unexpected } at 3', {})).toBe('Invalid JSON: unexpected } at 3');
+        });
+
+        it('should stringify dates and objects', () => {
+            expect(formatMessage('At {at}', { at: new Date('2026-01-02T03:04:05.000Z') })).toBe('At 2026-01-02T03:04:05.000Z');
+            expect(formatMessage('Got {value}', { value: { a: 1 } })).toBe('Got {"a":1}');
+        });
+    });
+
+    describe('HttpError', () => {
+        it('should fill the message from params and keep the template', () => {
+            const error = new HttpError(404, { message: '{resource} with id {id} was not found', params: { resource: 'User', id: 42 } });
+
+            expect(error.message).toBe('User with id 42 was not found');
+            expect(error.messageTemplate).toBe('{resource} with id {id} was not found');
+            expect(error.messageParams).toEqual({ resource: 'User', id: 42 });
+        });
+
+        it('should fill customMessages templates', () => {
+            configure({ customMessages: { 404: '{resource|Resource} not found' } });
+
+            expect(new HttpError(404, { metadata: { resource: 'Invoice' } }).message).toBe('Invoice not found');
+            expect(new HttpError(404).message).toBe('Resource not found');
+        });
+
+        it('should accept explicit params separate from metadata', () => {
+            const error = new HttpError(409, { message: 'Email {email} is taken', params: { email: 'ada@example.com' }, metadata: { field: 'email' } });
+
+            expect(error.message).toBe('Email ada@example.com is taken');
+            expect(error.metadata).toEqual({ field: 'email' });
+        });
+
+        it('should treat passed messages as literal text without params', () => {
+            const input = '{apiKey}';
+            const error = HttpError.badRequest(`Unknown field ${input}`, { apiKey: 'sk_live_abc123' });
+
+            expect(error.message).toBe('Unknown field {apiKey}');
+            expect(error.messageTemplate).toBeUndefined();
+            expect(error.toJSON()).toMatchObject({ message: 'Unknown field {apiKey}', metadata: { apiKey: '[REDACTED]' } });
+        });
+
+        it('should redact sensitive parameters substituted into templates', () => {
+            configure({ customMessages: { 401: 'Key {apiKey} is invalid for {user}' } });
+
+            expect(new HttpError(401, { metadata: { apiKey: 'sk_live_abc123', user: 'ada' } }).message)
+                .toBe('Key [REDACTED] is invalid for ada');
+            expect(new HttpError(400, { message: 'Token {token}', params: { token: 'abc' } }).message).toBe('Token [REDACTED]');
+
+            configure({ redaction: false });
+            expect(new HttpError(400, { message: 'Token {token}', params: { token: 'abc' } }).message).toBe('Token abc');
+        });
+
+        it('should leave plain and foreign messages untouched', () => {
+            const plain = HttpError.badRequest('Invalid input');
+            expect(plain.messageTemplate).toBeUndefined();
+
+            const converted = HttpError.fromError(new Error('Unknown key {id}'));
+            expect(converted.message).toBe('Unknown key {id}');
+            expect(converted.messageTemplate).toBeUndefined();
+
+            const literal = new HttpError(400, { message: 'Use {{ and }}', params: false });
+            expect(literal.message).toBe('Use {{ and }}');
+        });
+    });
+});
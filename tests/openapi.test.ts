@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { generateOpenApiComponents, buildOperationResponses, getResponseComponentName } from '../src/openapi';
+import { HttpErrorDefinitions } from '../src/constants/error-definitions';
+import { registerErrorDefinition, resetStatusRegistry } from '../src/registry';
+import { HttpResponse } from '../src/responses/HttpResponse';
+import { HttpError } from '../src/errors/HttpError';
+
+describe('OpenAPI components', () => {
+    afterEach(() => {
+        resetStatusRegistry();
+    });
+
+    it('should emit the envelope schemas', () => {
+        const { schemas } = generateOpenApiComponents();
+
+        expect(Object.keys(schemas)).toEqual(['FieldError', 'PaginationMeta', 'CursorPaginationMeta', 'PaginationLinks', 'SuccessResponse', 'ErrorResponse', 'ProblemDetails']);
+        expect(schemas.ErrorResponse).toMatchObject({ required: ['success', 'status_code', 'error'] });
+        expect(schemas.PaginationMeta).toMatchObject({
+            required: ['page', 'limit', 'total', 'total_pages', 'has_next', 'has_prev'],
+        });
+    });
+
+    it('should emit one response per error definition with an example', () => {
+        const { responses } = generateOpenApiComponents();
+
+        expect(Object.keys(responses)).toHaveLength(Object.keys(HttpErrorDefinitions).length);
+        expect(responses.NotFound).toEqual({
+            description: 'Not Found. The requested resource could not be found.',
+            content: {
+                'application/json': {
+                    schema: {
+                        allOf: [
+                            { $ref: '#/components/schemas/ErrorResponse' },
+                            { properties: { status_code: { const: 404 }, error: { properties: { type: { const: 'not_found' } } } } },
+                        ],
+                    },
+                    example: {
+                        success: false,
+                        status_code: 404,
+                        error: {
+                            type: 'not_found',
+                            title: 'Not Found',
+                            message: 'The requested resource could not be found.',
+                            details: 'The requested resource could not be found.',
+                        },
+                    },
+                },
+            },
+        });
+    });
+
+    it('should match the envelopes produced by HttpResponse', () => {
+        const { responses } = generateOpenApiComponents();
+        const response = HttpResponse.error(new HttpError(404), { includeStack: false });
+        const { timestamp, ...body } = response;
+
+        expect(HttpResponse.parse(responses.NotFound.content?.['application/json'].example).valid).toBe(true);
+        expect(responses.NotFound.content?.['application/json'].example).toEqual(body);
+    });
+
+    it('should describe Retry-After and Problem Details when requested', () => {
+        const { responses } = generateOpenApiComponents({ errorCodes: [503], problemDetails: true });
+
+        expect(Object.keys(responses)).toEqual(['ServiceUnavailable']);
+        expect(responses.ServiceUnavailable.headers?.['Retry-After'].schema).toMatchObject({ type: 'integer' });
+        expect(responses.ServiceUnavailable.description).toContain('Try again after a short period');
+        expect(responses.ServiceUnavailable.content?.['application/problem+json']).toMatchObject({
+            schema: { $ref: '#/components/schemas/ProblemDetails' },
+            example: { type: 'service_unavailable', status: 503, retry_after: 60 },
+        });
+    });
+
+    it('should include registered definitions', () => {
+        registerErrorDefinition(499, { type: 'client_closed_request', title: 'Client Closed Request', details: 'Closed.' });
+
+        expect(generateOpenApiComponents().responses.ClientClosedRequest).toBeDefined();
+        expect(getResponseComponentName(499)).toBe('ClientClosedRequest');
+        expect(getResponseComponentName(498)).toBe('Error498');
+    });
+
+    it('should build an operation responses map', () => {
+        const responses = buildOperationResponses([404, 200, 429], { data: { $ref: '#/components/schemas/User' } });
+
+        expect(Object.keys(responses)).toEqual(['200', '404', '429']);
+        expect(responses['404']).toEqual({ $ref: '#/components/responses/NotFound' });
+        expect(responses['429']).toEqual({ $ref: '#/components/responses/TooManyRequests' });
+        expect(responses['200']).toEqual({
+            description: 'The request has succeeded.',
+            content: {
+                'application/json': {
+                    schema: {
+                        allOf: [
+                            { $ref: '#/components/schemas/SuccessResponse' },
+                            { properties: { status_code: { const: 200 }, data: { $ref: '#/components/schemas/User' } }, required: ['data'] },
+                        ],
+                    },
+                },
+            },
+        });
+    });
+
+    it('should describe paginated and empty success responses', () => {
+        const responses = buildOperationResponses([200, 204], { data: { type: 'string' }, paginated: true });
+
+        expect(responses['204']).toEqual({ description: expect.any(String) });
+        expect(JSON.stringify(responses['200'])).toContain('"data":{"type":"array","items":{"type":"string"}}');
+        expect(JSON.stringify(responses['200'])).toContain('#/components/schemas/PaginationMeta');
+        expect(JSON.stringify(buildOperationResponses([200], { paginated: 'cursor' })))
+            .toContain('#/components/schemas/CursorPaginationMeta');
+        expect(buildOperationResponses([200], { paginated: true, links: true })['200']).toHaveProperty('headers.Link');
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildPaginationLinks, formatLinkHeader } from '../src/responses/pagination-links';
+import { HttpResponse } from '../src/responses/HttpResponse';
+import { getResponseHeaders } from '../src/responses/response-headers';
+
+describe('pagination links', () => {
+    it('should build page links keeping the query parameters', () => {
+        const response = HttpResponse.paginated([1, 2], {
+            page: 2,
+            limit: 2,
+            total: 7,
+            links: { baseUrl: 'https://api.example.com/users', query: { role: 'admin', page: '2', tag: ['a', 'b'] } },
+        });
+
+        expect((response.metadata?.pagination as Record<string, unknown>).links).toEqual({
+            self: 'https://api.example.com/users?role=admin&tag=a&tag=b&page=2&limit=2',
+            first: 'https://api.example.com/users?role=admin&tag=a&tag=b&page=1&limit=2',
+            prev: 'https://api.example.com/users?role=admin&tag=a&tag=b&page=1&limit=2',
+            next: 'https://api.example.com/users?role=admin&tag=a&tag=b&page=3&limit=2',
+            last: 'https://api.example.com/users?role=admin&tag=a&tag=b&page=4&limit=2',
+        });
+    });
+
+    it('should emit a matching Link header', () => {
+        const response = HttpResponse.paginated([], { page: 1, limit: 10, total: 15, links: { baseUrl: '/users' } });
+
+        expect(getResponseHeaders(response)).toEqual({
+            Link: '</users?page=1&limit=10>; rel="self", </users?page=1&limit=10>; rel="first", '
+                + '</users?page=2&limit=10>; rel="next", </users?page=2&limit=10>; rel="last"',
+        });
+        expect(HttpResponse.paginated([], { page: 1, limit: 10, total: 15 })).not.toHaveProperty('metadata.pagination.links');
+        expect(getResponseHeaders(HttpResponse.paginated([], { page: 1, limit: 10, total: 15 }))).toEqual({});
+    });
+
+    it('should build cursor links without a last link', () => {
+        const links = buildPaginationLinks(
+            { next_cursor: 'n3xt', prev_cursor: 'pr3v', has_more: true, limit: 20 },
+            { baseUrl: '/events?type=login', query: { cursor: 'curr' }, cursorParam: 'cursor' }
+        );
+
+        expect(links).toEqual({
+            self: '/events?type=login&cursor=curr&limit=20',
+            first: '/events?type=login&limit=20',
+            prev: '/events?type=login&cursor=pr3v&limit=20',
+            next: '/events?type=login&cursor=n3xt&limit=20',
+        });
+    });
+
+    it('should point prev at the last page when past the end', () => {
+        const links = buildPaginationLinks(
+            { page: 9, limit: 10, total: 15, total_pages: 2, has_next: false, has_prev: true },
+            { baseUrl: '/users', pageParam: 'p', limitParam: 'per_page' }
+        );
+
+        expect(links.prev).toBe('/users?p=2&per_page=10');
+        expect(links.next).toBeUndefined();
+        expect(formatLinkHeader({ self: '/a' })).toBe('</a>; rel="self"');
+    });
+
+    it('should produce envelopes accepted by parse()', () => {
+        const response = HttpResponse.paginated([1], { nextCursor: 'x', hasMore: true, links: { baseUrl: '/items' } });
+
+        expect(HttpResponse.parse(JSON.parse(JSON.stringify(response))).valid).toBe(true);
+        expect(HttpResponse.parse({
+            success: true,
+            status_code: 200,
+            metadata: { pagination: { next_cursor: null, prev_cursor: null, has_more: false, links: { next: 1 } } },
+        }).issues?.map((issue) => issue.path)).toEqual(['metadata.pagination.links.self', 'metadata.pagination.links.next']);
+    });
+});
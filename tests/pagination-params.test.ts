@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { parsePagination, assertPageInRange } from '../src/responses/pagination-params';
+import { HttpError } from '../src/errors/HttpError';
+import { createResponseKit } from '../src/kit';
+
+/**
+ * Capture the error thrown by a function
+ */
+function catchError(fn: () => unknown): HttpError {
+    try {
+        fn();
+    } catch (error) {
+        return error as HttpError;
+    }
+    throw new Error('Expected an error');
+}
+
+describe('parsePagination()', () => {
+    it('should apply defaults and compute the offset', () => {
+        expect(parsePagination({})).toEqual({ page: 1, limit: 20, offset: 0 });
+        expect(parsePagination({ page: '3', limit: '25' })).toEqual({ page: 3, limit: 25, offset: 50 });
+        expect(parsePagination(new URLSearchParams('page=2'), { defaultLimit: 10 })).toEqual({ page: 2, limit: 10, offset: 10 });
+    });
+
+    it('should support custom parameter names and numeric values', () => {
+        expect(parsePagination({ p: 4, per_page: 5 }, { pageParam: 'p', limitParam: 'per_page' }))
+            .toEqual({ page: 4, limit: 5, offset: 15 });
+    });
+
+    it('should reject invalid values with field errors', () => {
+        const error = catchError(() => parsePagination({ page: '-1', limit: '500' }, { maxLimit: 100 }));
+
+        expect(error).toBeInstanceOf(HttpError);
+        expect(error.code).toBe(400);
+        expect(error.errors).toEqual([
+            expect.objectContaining({ path: 'page', code: 'out_of_range', params: { min: 1, max: Number.MAX_SAFE_INTEGER } }),
+            expect.objectContaining({ path: 'limit', code: 'out_of_range', params: { min: 1, max: 100 } }),
+        ]);
+
+        expect(catchError(() => parsePagination({ page: '1.5', limit: ['10', '20'] })).errors).toEqual([
+            expect.objectContaining({ path: 'page', code: 'invalid_type' }),
+            expect.objectContaining({ path: 'limit', code: 'invalid_type' }),
+        ]);
+        expect(catchError(() => parsePagination({ limit: '0' })).errors?.[0]).toMatchObject({ path: 'limit', code: 'out_of_range' });
+        expect(catchError(() => parsePagination({ page: '900719925474099', limit: '100' })).errors?.[0])
+            .toMatchObject({ path: 'page', code: 'out_of_range' });
+    });
+
+    it('should turn pages past the last page into a 404 when the total is known', () => {
+        expect(parsePagination({ page: '2', limit: '10' }, { total: 11 })).toEqual({ page: 2, limit: 10, offset: 10 });
+        expect(parsePagination({ page: '1' }, { total: 0 })).toEqual({ page: 1, limit: 20, offset: 0 });
+
+        const error = catchError(() => parsePagination({ page: '3', limit: '10' }, { total: 11 }));
+        expect(error.code).toBe(404);
+        expect(error.metadata).toEqual({ page: 3, total_pages: 2 });
+        expect(() => assertPageInRange({ page: 5, limit: 10 }, 40)).toThrow(HttpError);
+    });
+
+    it('should throw the HttpError class of a kit', () => {
+        const kit = createResponseKit();
+        expect(catchError(() => parsePagination({ page: 'x' }, { kit }))).toBeInstanceOf(kit.HttpError);
+    });
+});
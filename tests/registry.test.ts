@@ -0,0 +1,107 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+    registerErrorDefinition,
+    registerSuccessDefinition,
+    registerStatusPack,
+    unregisterStatusDefinition,
+    resetStatusRegistry,
+    StatusPacks,
+} from '../src/registry';
+import { getErrorDefinition, listErrorDefinitions, HttpErrorDefinitions } from '../src/constants/error-definitions';
+import { getSuccessDefinition } from '../src/constants/success-definitions';
+import { HttpError } from '../src/errors/HttpError';
+import { HttpResponse } from '../src/responses/HttpResponse';
+
+describe('status code registry', () => {
+    afterEach(() => {
+        resetStatusRegistry();
+    });
+
+    it('should define unmapped error codes', () => {
+        expect(getErrorDefinition(499).type).toBe('unknown_client_error');
+
+        registerErrorDefinition(499, {
+            type: 'client_closed_request',
+            title: 'Client Closed Request',
+            details: 'The client closed the connection.',
+        });
+
+        expect(getErrorDefinition(499)).toEqual({
+            type: 'client_closed_request',
+            title: 'Client Closed Request',
+            code: 499,
+            details: 'The client closed the connection.',
+        });
+    });
+
+    it('should merge overrides over built-in definitions without mutating them', () => {
+        registerErrorDefinition(503, { retryAfter: 5, resolution: 'Retry shortly.' });
+        registerErrorDefinition(503, { title: 'Temporarily Unavailable' });
+
+        expect(getErrorDefinition(503)).toMatchObject({
+            type: 'service_unavailable',
+            title: 'Temporarily Unavailable',
+            code: 503,
+            retryAfter: 5,
+            resolution: 'Retry shortly.',
+        });
+        expect(HttpErrorDefinitions[503].title).toBe('Service Unavailable');
+    });
+
+    it('should be consulted by HttpError and the formatters', () => {
+        registerErrorDefinition(520, { type: 'origin_error', title: 'Origin Error', details: 'Origin failed.' });
+        const error = new HttpError(520);
+
+        expect(error).toMatchObject({ type: 'origin_error', title: 'Origin Error', message: 'Origin failed.' });
+        expect(HttpResponse.error(error, { includeStack: false }).error).toMatchObject({ type: 'origin_error', title: 'Origin Error' });
+        expect(HttpResponse.problem(error, { includeStack: false })).toMatchObject({ type: 'origin_error', title: 'Origin Error' });
+    });
+
+    it('should register success definitions', () => {
+        registerSuccessDefinition(218, { description: 'This is fine.' });
+        registerSuccessDefinition(200, { description: 'All good.' });
+
+        expect(getSuccessDefinition(218)).toEqual({ code: 218, description: 'This is fine.' });
+        expect(getSuccessDefinition(200)).toEqual({ code: 200, description: 'All good.' });
+    });
+
+    it('should reject codes outside the allowed ranges', () => {
+        expect(() => registerErrorDefinition(302, { type: 'found' })).toThrow(RangeError);
+        expect(() => registerSuccessDefinition(404, { description: 'nope' })).toThrow(RangeError);
+        expect(() => registerErrorDefinition(450.5, {})).toThrow(RangeError);
+    });
+
+    it('should unregister and reset definitions', () => {
+        registerErrorDefinition(499, { type: 'client_closed_request' });
+
+        expect(unregisterStatusDefinition(499)).toBe(true);
+        expect(unregisterStatusDefinition(499)).toBe(false);
+        expect(getErrorDefinition(499).type).toBe('unknown_client_error');
+    });
+
+    it('should register vendor packs on demand', () => {
+        expect(new HttpError(444).type).toBe('unknown_client_error');
+
+        registerStatusPack(StatusPacks.nginx);
+        registerStatusPack(StatusPacks.cloudflare);
+        registerStatusPack(StatusPacks.iis);
+        registerStatusPack(StatusPacks.awsElb);
+
+        expect(new HttpError(444).type).toBe('no_response');
+        expect(new HttpError(499).title).toBe('Client Closed Request');
+        expect(new HttpError(440).type).toBe('login_time_out');
+        expect(new HttpError(460).type).toBe('client_closed_connection');
+        for (let code = 520; code <= 527; code++) {
+            expect(getErrorDefinition(code).type).not.toBe('unknown_server_error');
+        }
+    });
+
+    it('should list built-in and registered definitions sorted by code', () => {
+        registerStatusPack(StatusPacks.nginx);
+        const codes = listErrorDefinitions().map((definition) => definition.code);
+
+        expect(codes).toContain(404);
+        expect(codes).toContain(499);
+        expect(codes).toEqual([...codes].sort((a, b) => a - b));
+    });
+});
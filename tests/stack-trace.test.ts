@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseStackTrace, formatStackTrace } from '../src/errors/stack-trace';
+import { HttpResponse } from '../src/responses/HttpResponse';
+import { HttpError } from '../src/errors/HttpError';
+import { configure, resetConfig } from '../src/config';
+
+const stack = [
+    'Error: User lookup failed',
+    '    at getUser (/srv/app/src/users.ts:12:11)',
+    '    at async handler (file:///srv/app/src/routes.ts:30:5)',
+    '    at Layer.handle [as handle_request] (/srv/app/node_modules/express/lib/router/layer.js:95:5)',
+    '    at next (/srv/app/node_modules/express/lib/router/route.js:149:13)',
+    '    at Route.dispatch (/srv/app/node_modules/express/lib/router/route.js:119:3)',
+    '    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)',
+    '    at /srv/app/src/server.ts:8:3',
+].join('\n');
+
+describe('stack traces', () => {
+    beforeEach(() => {
+        resetConfig();
+    });
+
+    describe('parseStackTrace()', () => {
+        it('should parse frames and relativize paths inside the project root', () => {
+            const frames = parseStackTrace(stack, { rootDir: '/srv/app/' });
+
+            expect(frames[0]).toEqual({
+                function: 'getUser',
+                file: 'src/users.ts',
+                line: 12,
+                column: 11,
+                isNodeModule: false,
+                isInternal: false,
+            });
+            expect(frames[1]).toMatchObject({ function: 'async handler', file: 'src/routes.ts', line: 30 });
+            expect(frames[frames.length - 1]).toEqual({
+                file: 'src/server.ts',
+                line: 8,
+                column: 3,
+                isNodeModule: false,
+                isInternal: false,
+            });
+        });
+
+        it('should collapse consecutive node_modules and internal frames', () => {
+            const frames = parseStackTrace(stack, { rootDir: '/srv/app' });
+
+            expect(frames).toHaveLength(5);
+            expect(frames[2]).toMatchObject({
+                function: 'Layer.handle [as handle_request]',
+                file: 'node_modules/express/lib/router/layer.js',
+                isNodeModule: true,
+                collapsed: 2,
+            });
+            expect(frames[3]).toMatchObject({ file: 'node:internal/process/task_queues', isInternal: true });
+            expect(frames[3].collapsed).toBeUndefined();
+        });
+
+        it('should keep every frame and absolute paths when disabled', () => {
+            const frames = parseStackTrace(stack, { rootDir: false, collapseNodeModules: false, collapseInternals: false });
+
+            expect(frames).toHaveLength(7);
+            expect(frames[0].file).toBe('/srv/app/src/users.ts');
+            expect(frames[1].file).toBe('/srv/app/src/routes.ts');
+        });
+    });
+
+    describe('formatStackTrace()', () => {
+        it('should relativize the raw string and emit frames by format', () => {
+            expect(formatStackTrace(stack, { rootDir: '/srv/app' })).toEqual({
+                stack: expect.stringContaining('at getUser (src/users.ts:12:11)'),
+            });
+            expect(Object.keys(formatStackTrace(stack, { format: 'frames' }))).toEqual(['frames']);
+            expect(Object.keys(formatStackTrace(stack, { format: 'both' }))).toEqual(['stack', 'frames']);
+            expect(formatStackTrace(undefined, { format: 'both' })).toEqual({});
+        });
+    });
+
+    describe('HttpResponse', () => {
+        it('should emit parsed frames when configured', () => {
+            configure({ stackTrace: { format: 'frames' } });
+            const response = HttpResponse.error(HttpError.internalServerError('boom'), { includeStack: true });
+
+            expect(response.error.stack).toBeUndefined();
+            expect(response.error.frames?.[0]).toMatchObject({ isNodeModule: false, isInternal: false });
+            expect(response.error.frames?.[0].file).not.toContain(process.cwd());
+        });
+
+        it('should format cause stacks the same way', () => {
+            configure({ stackTrace: { format: 'frames' } });
+            const error = HttpError.fromError(new Error('Query failed'));
+            const problem = HttpResponse.problem(error, { includeStack: true });
+
+            expect(problem.frames).toBeDefined();
+            expect((problem.causes as Array<Record<string, unknown>>)[0]).toHaveProperty('frames');
+        });
+    });
+});
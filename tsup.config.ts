@@ -0,0 +1,24 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig({
+    entry: [
+        'src/index.ts',
+        'src/integrations/express.ts',
+        'src/integrations/fastify.ts',
+        'src/integrations/fetch.ts',
+        'src/integrations/hono.ts',
+        'src/adapters/zod.ts',
+        'src/adapters/joi.ts',
+        'src/adapters/class-validator.ts',
+        'src/context/index.ts',
+        'src/client/index.ts',
+        'src/openapi/index.ts',
+        'src/docs/index.ts',
+        'src/cursor/index.ts',
+    ],
+    format: ['cjs', 'esm'],
+    dts: true,
+    clean: true,
+    // Shared chunks keep a single HttpError class across entry points (instanceof)
+    splitting: true,
+});